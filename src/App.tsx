@@ -1,35 +1,221 @@
-import { useState, useRef, useCallback } from 'react';
-import { parseCSV } from './utils/csvParser';
-import { generateExportHTML } from './utils/htmlExporter';
-import QuestionRenderer from './components/QuestionRenderer';
+import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import {
+    describeSkipped,
+    detectSheet,
+    isSpreadsheetFile,
+    parseCSV,
+    parseIdList,
+    parseSheet,
+    readSpreadsheet,
+    serializeQuestionRows,
+    type ParseResult,
+    type QuestionRow,
+    type SheetTable,
+} from './utils/csvParser';
+import { generateExportHTML, hasPartRenderer, type ExportResult, type ExportVariant } from './utils/htmlExporter';
+import { generateExportQTI } from './utils/qtiExporter';
+import { generateExportMoodle } from './utils/moodleExporter';
+import { DEFAULT_RETRY_OPTIONS, type UnmappedPart } from './utils/exportPipeline';
+import { createMemoizedSource, type QuestionSource } from './utils/questionSource';
+import { createCachedHttpSource, questionCache } from './utils/questionCache';
+import { createEnginePool } from './utils/enginePool';
+import { normalizeSearchText, readQuestionMetadata, type QuestionMetadata } from './utils/questionMetadata';
+import type { ValidationIssue } from './utils/questionValidation';
+import { getFailedReportIds, type ExportReport } from './utils/exportReport';
+import QuestionRenderer, { type RendererStatus } from './components/QuestionRenderer';
+import SourcePicker from './components/SourcePicker';
+import CachePanel from './components/CachePanel';
+import ValidationReport from './components/ValidationReport';
+import ExportReportDialog from './components/ExportReportDialog';
+import SheetPicker from './components/SheetPicker';
+import ImportPreview from './components/ImportPreview';
+import CurateBar from './components/CurateBar';
+import FilterBar, { EMPTY_FILTER, isFilterActive, type QuestionFilter } from './components/FilterBar';
 
-type QuestionStatus = 'loading' | 'loaded' | 'error';
+type ExportFormat = 'html' | 'pdf' | 'qti' | 'moodle-xml' | 'gift';
+
+const EXPORT_FILE_NAMES: Record<ExportFormat, string> = {
+    html: 'Questions_Export.zip',
+    pdf: 'Questions_Export.pdf',
+    qti: 'Questions_QTI.zip',
+    'moodle-xml': 'Questions_Moodle.xml',
+    gift: 'Questions_GIFT.txt',
+};
+
+// What shapes the exported file; kept with the last export so "Retry failed" writes
+// the same kind of file even if the controls have changed since
+interface ExportSettings {
+    format: ExportFormat;
+    variant: ExportVariant;
+    versionCount: number;
+    versionSeed: string;
+    selfContained: boolean;
+    mathMLOnly: boolean;
+    quizResponses: boolean;
+    includeAnswerKey: boolean;
+    pdfHeader: { school: string; title: string; date: string };
+}
+
+// Self-contained exports of one document are a single .html file; the rest stay ZIPs
+function exportButtonLabel(format: ExportFormat, variant: ExportVariant, selfContained: boolean): string {
+    switch (format) {
+        case 'pdf': return 'Export as PDF';
+        case 'qti': return 'Export as QTI package';
+        case 'moodle-xml': return 'Export as Moodle XML';
+        case 'gift': return 'Export as GIFT';
+        case 'html':
+            if (!selfContained) return 'Export as ZIP (with images)';
+            return variant === 'answers' || variant === 'quiz' ? 'Export as offline HTML' : 'Export as ZIP (offline HTML)';
+    }
+}
+
+const CURATED_CSV_FILE_NAME = 'Questions_List.csv';
+
+// Undo steps kept for the curated list
+const MAX_HISTORY = 100;
+
+const EXPORT_PHASE_LABELS: Record<string, string> = {
+    questions: 'Questions',
+    images: 'Images',
+    pages: 'Pages',
+};
+
+function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
 
 export default function App() {
-    const [questionIds, setQuestionIds] = useState<string[]>([]);
-    const [statuses, setStatuses] = useState<Record<string, QuestionStatus>>({});
+    const [rows, setRows] = useState<QuestionRow[]>([]);
+    const questionIds = useMemo(() => rows.map((row) => row.questionId), [rows]);
+    const positions = useMemo(() => new Map(questionIds.map((id, i) => [id, i])), [questionIds]);
+    // Earlier and undone versions of the curated list, most recent last / first
+    const [history, setHistory] = useState<{ past: QuestionRow[][]; future: QuestionRow[][] }>({ past: [], future: [] });
+    const [statuses, setStatuses] = useState<Record<string, RendererStatus>>({});
+    const [validation, setValidation] = useState<Record<string, ValidationIssue[]>>({});
+    // Type, language and stem text per question; null when its JSON could not be read
+    const [metadata, setMetadata] = useState<Record<string, QuestionMetadata | null>>({});
+    const [filter, setFilter] = useState<QuestionFilter>(EMPTY_FILTER);
+    const [exportFilteredOnly, setExportFilteredOnly] = useState(false);
+    const [source, setSource] = useState<QuestionSource>(() => createCachedHttpSource());
+    const [offline, setOffline] = useState(false);
     const [dragOver, setDragOver] = useState(false);
+    const [pastedIds, setPastedIds] = useState('');
+    // A spreadsheet whose ID column could not be detected, waiting for the user to pick one
+    const [pendingSheet, setPendingSheet] = useState<{ fileName: string; tables: SheetTable[] } | null>(null);
+    // An import with skipped rows, shown for review before the questions load
+    const [pendingImport, setPendingImport] = useState<ParseResult | null>(null);
     const [exporting, setExporting] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('html');
+    const [exportVariant, setExportVariant] = useState<ExportVariant>('answers');
+    const [versionCount, setVersionCount] = useState(3);
+    const [versionSeed, setVersionSeed] = useState('');
+    const [selfContained, setSelfContained] = useState(false);
+    const [mathMLOnly, setMathMLOnly] = useState(false);
+    const [quizResponses, setQuizResponses] = useState(true);
+    const [pdfHeader, setPdfHeader] = useState({ school: '', title: '', date: '' });
+    const [includeAnswerKey, setIncludeAnswerKey] = useState(false);
+    const [exportReport, setExportReport] = useState<ExportReport | null>(null);
+    const [reportOpen, setReportOpen] = useState(false);
+    const [retryCount, setRetryCount] = useState(DEFAULT_RETRY_OPTIONS.retries);
     const [exportProgress, setExportProgress] = useState({ loaded: 0, total: 0, phase: '' });
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Shared by every card so only a few engine iframes load at once
+    const enginePool = useMemo(() => createEnginePool(), []);
+    const abortRef = useRef<AbortController | null>(null);
+    // The last export's IDs, memoized source and settings; "Retry failed" reuses them so only
+    // the questions and images that failed are downloaded again, into the same kind of file
+    const lastExportRef = useRef<{ rows: QuestionRow[]; source: QuestionSource; settings: ExportSettings } | null>(null);
 
     const showToast = (message: string, type: 'success' | 'error') => {
         setToast({ message, type });
         setTimeout(() => setToast(null), 4000);
     };
 
+    const loadImport = (result: ParseResult) => {
+        setPendingImport(null);
+        if (result.rows.length === 0) {
+            showToast('No valid question IDs to load', 'error');
+            return;
+        }
+        setRows(result.rows);
+        setHistory({ past: [], future: [] });
+        setStatuses({});
+        setValidation({});
+        setMetadata({});
+        setFilter(EMPTY_FILTER);
+        setExportReport(null);
+        lastExportRef.current = null;
+        const skippedNote = result.skipped.length > 0
+            ? ` (skipped ${result.skipped.length}: ${describeSkipped(result.skipped)})` : '';
+        showToast(`✅ Loaded ${result.rows.length} question IDs${skippedNote}`, 'success');
+    };
+
+    // Every input path ends here; anything skipped is reviewed first
+    const applyImport = (result: ParseResult) => {
+        setPendingSheet(null);
+        if (result.skipped.length > 0) {
+            setPendingImport(result);
+        } else {
+            loadImport(result);
+        }
+    };
+
     const handleFile = async (file: File) => {
         try {
-            const ids = await parseCSV(file);
-            setQuestionIds(ids);
-            setStatuses({});
-            showToast(`✅ Loaded ${ids.length} question IDs`, 'success');
+            if (isSpreadsheetFile(file.name)) {
+                const tables = await readSpreadsheet(await file.arrayBuffer());
+                const detected = detectSheet(tables);
+                if (detected) {
+                    applyImport(parseSheet(detected.table, detected.idColumn, true));
+                } else if (tables.length > 0) {
+                    setPendingSheet({ fileName: file.name, tables });
+                } else {
+                    showToast('The spreadsheet has no sheets', 'error');
+                }
+                return;
+            }
+            applyImport(await parseCSV(file));
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to parse file', 'error');
+        }
+    };
+
+    const handleSheetPicked = (table: SheetTable, idColumn: number, hasHeader: boolean) => {
+        try {
+            applyImport(parseSheet(table, idColumn, hasHeader));
         } catch (err) {
-            showToast(err instanceof Error ? err.message : 'Failed to parse CSV', 'error');
+            showToast(err instanceof Error ? err.message : 'Failed to read the sheet', 'error');
         }
     };
 
+    const handlePastedIds = () => {
+        try {
+            applyImport(parseIdList(pastedIds));
+            setPastedIds('');
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to read the IDs', 'error');
+        }
+    };
+
+    // ?ids=123,456,1000-1010 opens a prepared set straight from a link
+    useEffect(() => {
+        const ids = new URLSearchParams(window.location.search).get('ids');
+        if (!ids) return;
+        try {
+            applyImport(parseIdList(ids));
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to read the ids parameter', 'error');
+        }
+    }, []);
+
     const onDrop = (e: React.DragEvent) => {
         e.preventDefault();
         setDragOver(false);
@@ -49,63 +235,307 @@ export default function App() {
         if (file) handleFile(file);
     };
 
-    const handleStatusChange = useCallback((id: string, status: QuestionStatus) => {
+    const handleSourceChange = (next: QuestionSource) => {
+        setSource(next);
+        setStatuses({});
+        setValidation({});
+        setMetadata({});
+        setExportReport(null);
+        lastExportRef.current = null;
+    };
+
+    // A fresh source makes every preview reload through (or from) the cache
+    const handleOfflineChange = (next: boolean) => {
+        questionCache.setOffline(next);
+        setOffline(next);
+        handleSourceChange(createCachedHttpSource());
+    };
+
+    // Reads the JSON of questions not seen yet, so inserting or reordering does not refetch
+    // everything. metadata is read from this render on purpose: a source change clears it.
+    useEffect(() => {
+        const missing = questionIds.filter((id) => !(id in metadata));
+        if (missing.length === 0) return;
+        const controller = new AbortController();
+        readQuestionMetadata(missing, source, (id, read) => {
+            setMetadata((prev) => ({ ...prev, [id]: read }));
+        }, controller.signal).catch(() => undefined);
+        return () => controller.abort();
+    }, [questionIds, source]);
+
+    const handleStatusChange = useCallback((id: string, status: RendererStatus) => {
         setStatuses((prev) => ({ ...prev, [id]: status }));
     }, []);
 
-    const handleExport = async () => {
-        if (questionIds.length === 0) {
-            showToast('No questions to export', 'error');
-            return;
-        }
+    const handleValidated = useCallback((id: string, issues: ValidationIssue[]) => {
+        setValidation((prev) => ({ ...prev, [id]: issues }));
+    }, []);
+
+    const runExport = async (exportRows: QuestionRow[], exportSource: QuestionSource, settings: ExportSettings) => {
+        const ids = exportRows.map((row) => row.questionId);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const lastExport = { rows: exportRows, source: exportSource, settings };
+        lastExportRef.current = lastExport;
+        const { format, variant } = settings;
+        const fetchOptions = { source: exportSource, signal: controller.signal, retry: { retries: retryCount } };
 
         setExporting(true);
-        setExportProgress({ loaded: 0, total: questionIds.length, phase: 'questions' });
+        setExportProgress({ loaded: 0, total: ids.length, phase: 'questions' });
         try {
-            const result = await generateExportHTML(questionIds, (loaded, total, phase) => {
+            const onProgress = (loaded: number, total: number, phase: string) => {
                 setExportProgress({ loaded, total, phase });
-            });
-            const url = URL.createObjectURL(result.blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = 'Questions_Export.zip';
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            };
+            let result: ExportResult & { unmappedParts?: UnmappedPart[] };
+            if (format === 'qti') {
+                result = await generateExportQTI(ids, onProgress, fetchOptions);
+            } else if (format === 'moodle-xml' || format === 'gift') {
+                result = await generateExportMoodle(ids, format === 'gift' ? 'gift' : 'xml', onProgress, fetchOptions);
+            } else if (format === 'pdf') {
+                // jsPDF and html2canvas are only loaded when a PDF is actually requested
+                const { generateExportPDF } = await import('./utils/pdfExporter');
+                result = await generateExportPDF(ids, onProgress, {
+                    ...fetchOptions,
+                    variant: variant === 'worksheet' ? 'worksheet' : 'answers',
+                    includeAnswerKey: settings.includeAnswerKey,
+                    header: settings.pdfHeader,
+                    rows: exportRows,
+                });
+            } else {
+                result = await generateExportHTML(ids, onProgress, {
+                    ...fetchOptions,
+                    rows: exportRows,
+                    variant,
+                    versionCount: settings.versionCount,
+                    versionSeed: settings.versionSeed,
+                    selfContained: settings.selfContained,
+                    mathOutput: settings.mathMLOnly ? 'mathml' : 'html',
+                    quizResponses: settings.quizResponses,
+                });
+            }
+            const notes: string[] = [];
+            if (result.unmappedParts?.length) {
+                notes.push(`${result.unmappedParts.length} parts have no equivalent in this format`);
+            }
+            if (result.validationIssues.length > 0) {
+                // The export may have fetched fresher JSON than the preview did
+                setValidation((prev) => {
+                    const next = { ...prev };
+                    for (const id of new Set(result.validationIssues.map((issue) => issue.questionId))) {
+                        next[id] = result.validationIssues.filter((issue) => issue.questionId === id);
+                    }
+                    return next;
+                });
+                notes.push(`${result.validationIssues.length} schema issues in the question data`);
+            }
+            if (result.sanitizerRemovals?.length) {
+                notes.push(`${result.sanitizerRemovals.length} unsafe elements or attributes were removed from the question HTML`);
+            }
+            if (result.mathErrors?.length) {
+                notes.push(`${result.mathErrors.length} math expressions could not be parsed`);
+            }
+            if (result.failedInlineUrls?.length) {
+                notes.push(`${result.failedInlineUrls.length} stylesheets/scripts could not be inlined`);
+            }
+            downloadBlob(result.blob, result.fileName ?? EXPORT_FILE_NAMES[format]);
+            if (result.versionSeed) {
+                setVersionSeed(result.versionSeed);
+                // A retry must shuffle the same way, even when this export picked a random seed
+                lastExport.settings = { ...settings, versionSeed: result.versionSeed };
+            }
+            setExportReport(result.report);
 
             const failedQuestionCount = result.failedIds.length;
             const failedImageCount = result.failedImagePaths.length;
 
             if (failedQuestionCount > 0 || failedImageCount > 0) {
+                setReportOpen(true);
                 const failures: string[] = [];
                 if (failedQuestionCount > 0) failures.push(`${failedQuestionCount} questions`);
                 if (failedImageCount > 0) failures.push(`${failedImageCount} images`);
 
                 showToast(
-                    `📦 Exported ${result.successCount}/${questionIds.length} questions. Failed: ${failures.join(' and ')}.`,
+                    `📦 Exported ${result.successCount}/${ids.length} questions. Failed: ${failures.join(' and ')}.` +
+                    (notes.length > 0 ? ` ${notes.join('. ')}.` : ''),
                     result.successCount > 0 ? 'success' : 'error'
                 );
             } else {
-                showToast(`📦 Exported all ${result.successCount} questions with images!`, 'success');
+                showToast(
+                    result.versionSeed
+                        ? `📦 Exported ${settings.versionCount} versions of ${result.successCount} questions (seed: ${result.versionSeed})`
+                        : notes.length > 0
+                            ? `📦 Exported ${result.successCount} questions. ${notes.join('. ')}.`
+                            : `📦 Exported all ${result.successCount} questions with images!`,
+                    'success'
+                );
             }
         } catch (err) {
-            showToast(err instanceof Error ? err.message : 'Export failed', 'error');
+            if (controller.signal.aborted) {
+                showToast('Export cancelled', 'error');
+            } else {
+                showToast(err instanceof Error ? err.message : 'Export failed', 'error');
+            }
         } finally {
+            abortRef.current = null;
             setExporting(false);
         }
     };
 
+    const handleExport = () => {
+        const exportRows = filterActive && exportFilteredOnly
+            ? rows.filter((row) => filteredIdSet.has(row.questionId))
+            : rows;
+        if (exportRows.length === 0) {
+            showToast('No questions to export', 'error');
+            return;
+        }
+        runExport(exportRows, createMemoizedSource(source), {
+            format: exportFormat,
+            variant: exportVariant,
+            versionCount,
+            versionSeed,
+            selfContained,
+            mathMLOnly,
+            quizResponses,
+            includeAnswerKey,
+            pdfHeader,
+        });
+    };
+
+    const handleRetryFailed = () => {
+        const lastExport = lastExportRef.current;
+        if (lastExport) runExport(lastExport.rows, lastExport.source, lastExport.settings);
+    };
+
+    const handleCancelExport = () => abortRef.current?.abort();
+
+    const closeReport = useCallback(() => setReportOpen(false), []);
+
+    // ─── Curating the list ───
+
+    const curate = (next: QuestionRow[]) => {
+        setHistory((prev) => ({ past: [...prev.past, rows].slice(-MAX_HISTORY), future: [] }));
+        setRows(next);
+    };
+
+    const handleMove = (from: number, to: number) => {
+        const next = [...rows];
+        const [moved] = next.splice(from, 1);
+        if (!moved) return;
+        next.splice(to, 0, moved);
+        curate(next);
+    };
+
+    const handleRemove = (id: string) => {
+        if (rows.length === 1) {
+            showToast('Use Reset to clear the whole list', 'error');
+            return;
+        }
+        curate(rows.filter((row) => row.questionId !== id));
+    };
+
+    const handleInsert = (text: string, position: number): boolean => {
+        try {
+            const result = parseIdList(text);
+            const present = new Set(questionIds);
+            const added = result.rows.filter((row) => !present.has(row.questionId));
+            const notes: string[] = [];
+            if (added.length < result.rows.length) notes.push(`${result.rows.length - added.length} already in the list`);
+            if (result.skipped.length > 0) notes.push(describeSkipped(result.skipped));
+            const noteText = notes.length > 0 ? ` (skipped ${notes.join(', ')})` : '';
+            if (added.length === 0) {
+                showToast(`No new question IDs to insert${noteText}`, 'error');
+                return false;
+            }
+            curate([...rows.slice(0, position), ...added, ...rows.slice(position)]);
+            showToast(`✅ Inserted ${added.length} questions at position ${position + 1}${noteText}`, 'success');
+            return true;
+        } catch (err) {
+            showToast(err instanceof Error ? err.message : 'Failed to read the IDs', 'error');
+            return false;
+        }
+    };
+
+    const handleUndo = () => {
+        const previous = history.past[history.past.length - 1];
+        if (!previous) return;
+        setHistory({ past: history.past.slice(0, -1), future: [rows, ...history.future] });
+        setRows(previous);
+    };
+
+    const handleRedo = () => {
+        const [next, ...future] = history.future;
+        if (!next) return;
+        setHistory({ past: [...history.past, rows], future });
+        setRows(next);
+    };
+
+    const handleDownloadCSV = () => {
+        downloadBlob(new Blob([serializeQuestionRows(rows)], { type: 'text/csv;charset=utf-8' }), CURATED_CSV_FILE_NAME);
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), except while typing in a field
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || exporting) return;
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, select, [contenteditable]')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    });
+
     const handleReset = () => {
-        setQuestionIds([]);
+        setRows([]);
+        setHistory({ past: [], future: [] });
         setStatuses({});
+        setValidation({});
+        setMetadata({});
+        setFilter(EMPTY_FILTER);
+        setExportReport(null);
+        lastExportRef.current = null;
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
-    const loadedCount = Object.values(statuses).filter((s) => s === 'loaded').length;
-    const errorCount = Object.values(statuses).filter((s) => s === 'error').length;
-    const loadingCount = questionIds.length - loadedCount - errorCount;
-    const progress = questionIds.length > 0 ? Math.round(((loadedCount + errorCount) / questionIds.length) * 100) : 0;
+    // Removed questions keep their entries so undo can bring them back; only the current list counts
+    const currentStatuses = questionIds.map((id) => statuses[id]);
+    const loadedCount = currentStatuses.filter((s) => s === 'loaded').length;
+    const errorCount = currentStatuses.filter((s) => s === 'error').length;
+    const loadingCount = currentStatuses.filter((s) => s === 'loading').length;
+    const currentValidation = Object.fromEntries(questionIds.filter((id) => id in validation).map((id) => [id, validation[id]]));
+    // Off-screen cards and cards waiting for an engine slot
+    const notRenderedCount = questionIds.length - loadedCount - errorCount - loadingCount;
+    const filterActive = isFilterActive(filter);
+    const searchText = normalizeSearchText(filter.search.trim());
+    const matchesFilter = (id: string): boolean => {
+        const status = statuses[id] ?? 'pending';
+        if (filter.status === 'not-rendered' ? status !== 'pending' : filter.status !== 'all' && status !== filter.status) return false;
+        const read = metadata[id];
+        if (filter.partType && !read?.partTypes.includes(filter.partType)) return false;
+        if (filter.language && read?.languageCode !== filter.language) return false;
+        return !searchText || normalizeSearchText(`${id} ${read?.stemText ?? ''} ${read?.answerText ?? ''}`).includes(searchText);
+    };
+    const filteredIds = filterActive ? questionIds.filter(matchesFilter) : questionIds;
+    const filteredIdSet = new Set(filteredIds);
+    const readMetadata = questionIds.map((id) => metadata[id]).filter((read): read is QuestionMetadata => !!read);
+    const partTypeOptions = [...new Set(readMetadata.flatMap((read) => read.partTypes))].sort();
+    // Parts of these types would export as "Unsupported type"
+    const unrenderedTypes = partTypeOptions.filter((type) => !hasPartRenderer(type));
+    const unrenderedCount = readMetadata.filter((read) => read.partTypes.some((type) => !hasPartRenderer(type))).length;
+    const languageOptions = [...new Set(readMetadata.map((read) => read.languageCode))].sort();
+    const metadataCount = questionIds.filter((id) => id in metadata).length;
+    const failedReportIds = exportReport ? getFailedReportIds(exportReport) : [];
+    // Measured against the cards that have started rendering, since off-screen ones may never start
+    const startedCount = loadedCount + errorCount + loadingCount;
+    const progress = startedCount > 0 ? Math.round(((loadedCount + errorCount) / startedCount) * 100) : 0;
 
     return (
         <div className="app-container">
@@ -117,26 +547,66 @@ export default function App() {
                 <p>Upload a CSV file with question IDs to render and export questions</p>
             </header>
 
-            {questionIds.length === 0 ? (
-                <div
-                    className={`upload-zone ${dragOver ? 'drag-over' : ''}`}
-                    onDrop={onDrop}
-                    onDragOver={onDragOver}
-                    onDragLeave={onDragLeave}
-                    onClick={() => fileInputRef.current?.click()}
-                >
-                    <div className="upload-zone-content">
-                        <span className="upload-icon">📁</span>
-                        <h3>Drop CSV file here or click to browse</h3>
-                        <p>Accepts .csv files with a "question_id" column</p>
+            <SourcePicker
+                source={source}
+                onChange={handleSourceChange}
+                onError={(message) => showToast(message, 'error')}
+            />
+            {source.kind === 'http' && (
+                <CachePanel
+                    offline={offline}
+                    onOfflineChange={handleOfflineChange}
+                    onError={(message) => showToast(message, 'error')}
+                />
+            )}
+
+            {questionIds.length === 0 && pendingImport ? (
+                <ImportPreview
+                    result={pendingImport}
+                    onProceed={loadImport}
+                    onCancel={() => setPendingImport(null)}
+                />
+            ) : questionIds.length === 0 && pendingSheet ? (
+                <SheetPicker
+                    fileName={pendingSheet.fileName}
+                    tables={pendingSheet.tables}
+                    onConfirm={handleSheetPicked}
+                    onCancel={() => setPendingSheet(null)}
+                />
+            ) : questionIds.length === 0 ? (
+                <>
+                    <div
+                        className={`upload-zone ${dragOver ? 'drag-over' : ''}`}
+                        onDrop={onDrop}
+                        onDragOver={onDragOver}
+                        onDragLeave={onDragLeave}
+                        onClick={() => fileInputRef.current?.click()}
+                    >
+                        <div className="upload-zone-content">
+                            <span className="upload-icon">📁</span>
+                            <h3>Drop a CSV or spreadsheet here or click to browse</h3>
+                            <p>Accepts .csv, .xlsx and .ods files with a "question_id" column</p>
+                        </div>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.xlsx,.xls,.ods"
+                            onChange={onFileInput}
+                        />
                     </div>
-                    <input
-                        ref={fileInputRef}
-                        type="file"
-                        accept=".csv"
-                        onChange={onFileInput}
-                    />
-                </div>
+                    <div className="paste-ids">
+                        <textarea
+                            value={pastedIds}
+                            onChange={(e) => setPastedIds(e.target.value)}
+                            placeholder="…or paste question IDs separated by commas, tabs or new lines. Ranges like 1200-1250 are expanded."
+                            rows={4}
+                        />
+                        <button className="btn btn-primary" onClick={handlePastedIds} disabled={!pastedIds.trim()}>
+                            <span className="btn-icon">📋</span>
+                            Load pasted IDs
+                        </button>
+                    </div>
+                </>
             ) : (
                 <>
                     {/* Stats */}
@@ -153,6 +623,10 @@ export default function App() {
                             <div className="stat-value">{loadingCount}</div>
                             <div className="stat-label">Loading</div>
                         </div>
+                        <div className="stat-card">
+                            <div className="stat-value">{notRenderedCount}</div>
+                            <div className="stat-label">Not Yet Rendered</div>
+                        </div>
                         <div className="stat-card">
                             <div className="stat-value">{errorCount}</div>
                             <div className="stat-label">Errors</div>
@@ -160,7 +634,7 @@ export default function App() {
                     </div>
 
                     {/* Progress */}
-                    {progress < 100 && (
+                    {loadingCount > 0 && (
                         <div className="progress-container">
                             <div className="progress-header">
                                 <span className="progress-text">Rendering questions...</span>
@@ -172,14 +646,195 @@ export default function App() {
                         </div>
                     )}
 
+                    <ValidationReport issues={currentValidation} />
+
+                    {unrenderedTypes.length > 0 && (
+                        <p className="renderer-notice">
+                            No renderer registered for {unrenderedTypes.join(', ')} ({unrenderedCount} {unrenderedCount === 1 ? 'question' : 'questions'}).
+                            These parts export as "Unsupported type".
+                        </p>
+                    )}
+
                     {/* Controls */}
                     <div className="controls-bar">
+                        <select
+                            className="export-select"
+                            value={exportFormat}
+                            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                            disabled={exporting}
+                        >
+                            <option value="html">HTML</option>
+                            <option value="pdf">PDF (print-ready)</option>
+                            <option value="qti">QTI 2.1 package</option>
+                            <option value="moodle-xml">Moodle XML</option>
+                            <option value="gift">Moodle GIFT</option>
+                        </select>
+                        {exportFormat === 'html' && (
+                            <select
+                                className="export-select"
+                                value={exportVariant}
+                                onChange={(e) => setExportVariant(e.target.value as ExportVariant)}
+                                disabled={exporting}
+                            >
+                                <option value="answers">Answer sheet</option>
+                                <option value="worksheet">Student worksheet + answer key</option>
+                                <option value="versions">Exam versions (shuffled)</option>
+                                <option value="quiz">Interactive quiz (self-grading)</option>
+                            </select>
+                        )}
+                        {exportFormat === 'pdf' && (
+                            <>
+                                <select
+                                    className="export-select"
+                                    value={exportVariant === 'worksheet' ? 'worksheet' : 'answers'}
+                                    onChange={(e) => setExportVariant(e.target.value as ExportVariant)}
+                                    disabled={exporting}
+                                >
+                                    <option value="answers">Answer sheet</option>
+                                    <option value="worksheet">Student worksheet</option>
+                                </select>
+                                <label className="export-field">
+                                    <input
+                                        type="checkbox"
+                                        checked={includeAnswerKey}
+                                        onChange={(e) => setIncludeAnswerKey(e.target.checked)}
+                                        disabled={exporting}
+                                    />
+                                    Answer key appendix
+                                </label>
+                                <label className="export-field">
+                                    School
+                                    <input
+                                        type="text"
+                                        value={pdfHeader.school}
+                                        onChange={(e) => setPdfHeader({ ...pdfHeader, school: e.target.value })}
+                                        disabled={exporting}
+                                    />
+                                </label>
+                                <label className="export-field">
+                                    Exam title
+                                    <input
+                                        type="text"
+                                        value={pdfHeader.title}
+                                        onChange={(e) => setPdfHeader({ ...pdfHeader, title: e.target.value })}
+                                        disabled={exporting}
+                                    />
+                                </label>
+                                <label className="export-field">
+                                    Date
+                                    <input
+                                        type="date"
+                                        value={pdfHeader.date}
+                                        onChange={(e) => setPdfHeader({ ...pdfHeader, date: e.target.value })}
+                                        disabled={exporting}
+                                    />
+                                </label>
+                            </>
+                        )}
+                        {exportFormat === 'html' && (
+                            <label className="export-field">
+                                <input
+                                    type="checkbox"
+                                    checked={selfContained}
+                                    onChange={(e) => setSelfContained(e.target.checked)}
+                                    disabled={exporting}
+                                />
+                                Self-contained (works offline)
+                            </label>
+                        )}
+                        {exportFormat === 'html' && (
+                            <label className="export-field" title="For Word import and screen readers">
+                                <input
+                                    type="checkbox"
+                                    checked={mathMLOnly}
+                                    onChange={(e) => setMathMLOnly(e.target.checked)}
+                                    disabled={exporting}
+                                />
+                                Math as MathML only
+                            </label>
+                        )}
+                        {exportFormat === 'html' && exportVariant === 'quiz' && (
+                            <label className="export-field">
+                                <input
+                                    type="checkbox"
+                                    checked={quizResponses}
+                                    onChange={(e) => setQuizResponses(e.target.checked)}
+                                    disabled={exporting}
+                                />
+                                Let students download their responses
+                            </label>
+                        )}
+                        {exportFormat === 'html' && exportVariant === 'versions' && (
+                            <>
+                                <label className="export-field">
+                                    Versions
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={26}
+                                        value={versionCount}
+                                        onChange={(e) => setVersionCount(Math.max(1, Math.min(26, Number(e.target.value) || 1)))}
+                                        disabled={exporting}
+                                    />
+                                </label>
+                                <label className="export-field">
+                                    Seed
+                                    <input
+                                        type="text"
+                                        placeholder="random"
+                                        value={versionSeed}
+                                        onChange={(e) => setVersionSeed(e.target.value)}
+                                        disabled={exporting}
+                                    />
+                                </label>
+                            </>
+                        )}
+                        {filterActive && (
+                            <label className="export-field">
+                                <input
+                                    type="checkbox"
+                                    checked={exportFilteredOnly}
+                                    onChange={(e) => setExportFilteredOnly(e.target.checked)}
+                                    disabled={exporting}
+                                />
+                                Export only filtered ({filteredIds.length})
+                            </label>
+                        )}
+                        <label className="export-field">
+                            Retries
+                            <input
+                                type="number"
+                                min={0}
+                                max={5}
+                                value={retryCount}
+                                onChange={(e) => setRetryCount(Math.max(0, Math.min(5, Number(e.target.value) || 0)))}
+                                disabled={exporting}
+                            />
+                        </label>
                         <button className="btn btn-success" onClick={handleExport} disabled={exporting}>
                             <span className="btn-icon">{exporting ? '⏳' : '📦'}</span>
                             {exporting
-                                ? `${exportProgress.phase === 'questions' ? 'Questions' : 'Images'}: ${exportProgress.loaded}/${exportProgress.total}...`
-                                : 'Export as ZIP (with images)'}
+                                ? `${EXPORT_PHASE_LABELS[exportProgress.phase] ?? 'Images'}: ${exportProgress.loaded}/${exportProgress.total}...`
+                                : exportButtonLabel(exportFormat, exportVariant, selfContained)}
                         </button>
+                        {exporting && (
+                            <button className="btn btn-danger" onClick={handleCancelExport}>
+                                <span className="btn-icon">✕</span>
+                                Cancel
+                            </button>
+                        )}
+                        {!exporting && failedReportIds.length > 0 && lastExportRef.current && (
+                            <button className="btn btn-secondary" onClick={handleRetryFailed}>
+                                <span className="btn-icon">🔁</span>
+                                Retry failed ({failedReportIds.length})
+                            </button>
+                        )}
+                        {exportReport && (
+                            <button className="btn btn-secondary" onClick={() => setReportOpen(true)} disabled={exporting}>
+                                <span className="btn-icon">📋</span>
+                                Export report
+                            </button>
+                        )}
                         <button className="btn btn-secondary" onClick={handleReset}>
                             <span className="btn-icon">🔄</span>
                             Reset
@@ -188,14 +843,41 @@ export default function App() {
 
                     {/* Questions */}
                     <div className="questions-section">
-                        <h2>Questions ({questionIds.length})</h2>
+                        <h2>Questions ({filterActive ? `${filteredIds.length} of ${questionIds.length}` : questionIds.length})</h2>
+                        <FilterBar
+                            filter={filter}
+                            onChange={setFilter}
+                            partTypes={partTypeOptions}
+                            languages={languageOptions}
+                            matchCount={filteredIds.length}
+                            totalCount={questionIds.length}
+                            metadataCount={metadataCount}
+                        />
+                        <CurateBar
+                            questionCount={questionIds.length}
+                            canUndo={history.past.length > 0}
+                            canRedo={history.future.length > 0}
+                            disabled={exporting}
+                            onInsert={handleInsert}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                            onDownloadCSV={handleDownloadCSV}
+                        />
+                        {filteredIds.length === 0 && (
+                            <p className="filter-empty">No questions match the filters.</p>
+                        )}
                         <div className="questions-grid">
-                            {questionIds.map((id, i) => (
+                            {filteredIds.map((id) => (
                                 <QuestionRenderer
-                                    key={`${id}-${i}`}
+                                    key={id}
                                     questionId={id}
-                                    index={i}
+                                    index={positions.get(id) ?? 0}
+                                    source={source}
+                                    enginePool={enginePool}
                                     onStatusChange={handleStatusChange}
+                                    onValidated={handleValidated}
+                                    onMove={handleMove}
+                                    onRemove={handleRemove}
                                 />
                             ))}
                         </div>
@@ -203,6 +885,10 @@ export default function App() {
                 </>
             )}
 
+            {reportOpen && exportReport && (
+                <ExportReportDialog report={exportReport} onClose={closeReport} />
+            )}
+
             {/* Toast */}
             {toast && (
                 <div className={`toast ${toast.type}`}>
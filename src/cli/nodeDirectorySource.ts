@@ -0,0 +1,26 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createFileTreeSource, type QuestionSource } from '../utils/questionSource';
+
+// Reads {dir}/{id}/{id}.json and images straight from disk
+export function createNodeDirectorySource(dir: string): QuestionSource {
+  const root = path.resolve(dir);
+
+  return createFileTreeSource('directory', root, {
+    read: async (filePath) => {
+      const resolved = path.resolve(root, filePath);
+      if (!resolved.startsWith(root + path.sep)) {
+        return null;
+      }
+      try {
+        const data = await readFile(resolved);
+        return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw err;
+      }
+    },
+  });
+}
@@ -0,0 +1,266 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { DOMParser as LinkedomDOMParser } from 'linkedom';
+import {
+  DEFAULT_ID_PATTERN,
+  describeSkipReason,
+  describeSkipped,
+  detectSheet,
+  isSpreadsheetFile,
+  parseCSVText,
+  parseSheet,
+  readSpreadsheet,
+  type ImportOptions,
+  type ParseResult,
+} from '../utils/csvParser';
+import { generateExportHTML, type ExportResult } from '../utils/htmlExporter';
+import { generateExportQTI } from '../utils/qtiExporter';
+import { generateExportMoodle } from '../utils/moodleExporter';
+import { DEFAULT_RETRY_OPTIONS, type UnmappedPart } from '../utils/exportPipeline';
+import { createHttpSource, type QuestionSource } from '../utils/questionSource';
+import { createNodeDirectorySource } from './nodeDirectorySource';
+
+// The exporters rewrite question HTML through DOMParser, which Node does not have
+globalThis.DOMParser ??= LinkedomDOMParser as unknown as typeof DOMParser;
+
+const DEFAULT_BASE_URL = 'https://s3.us-east-1.amazonaws.com/qms.nagwa.com/questions';
+
+const FORMAT_EXTENSIONS: Record<string, string> = {
+  html: '.zip',
+  qti: '.zip',
+  'moodle-xml': '.xml',
+  gift: '.gift.txt',
+};
+
+const USAGE = `Usage: question-export <ids.csv|ids.xlsx|ids.ods> [options]
+
+Options:
+  -o, --output <file>     File to write (default: <ids>.zip, .xml or .gift.txt next to the CSV)
+  -r, --report <file>     Failure report to write (default: <output>.report.json)
+  -b, --base-url <url>    Question base URL or local directory laid out as
+                          {id}/{id}.json (default: ${DEFAULT_BASE_URL})
+  -f, --format <format>   html (default), qti (QTI 2.1 content package),
+                          moodle-xml or gift
+  -w, --worksheet         Export a student worksheet plus a separate answer key
+      --quiz              Export an interactive quiz students answer and check in the browser
+      --quiz-responses    With --quiz, let students download their responses as JSON
+  -s, --self-contained    Inline CSS, fonts, KaTeX and images (HTML format); a single
+                          document is written as a standalone .html file
+      --mathml            Write math as MathML only instead of KaTeX HTML (HTML format),
+                          for Word import and screen readers
+  -v, --versions <n>      Export n shuffled exam versions (A, B, C, …) with keys
+      --seed <seed>       Seed for --versions; reuse it to regenerate the same versions
+      --id-pattern <re>   Skip input rows whose ID does not match this regular expression
+                          (default: ${DEFAULT_ID_PATTERN.source})
+      --retries <n>       Retry failed downloads up to n times with backoff (default: ${DEFAULT_RETRY_OPTIONS.retries})
+  -q, --quiet             Do not print progress
+  -h, --help              Show this help`;
+
+function resolveSource(base: string): QuestionSource {
+  if (/^https?:\/\//i.test(base)) {
+    return createHttpSource(base);
+  }
+  return createNodeDirectorySource(base.startsWith('file:') ? fileURLToPath(base) : base);
+}
+
+// Spreadsheets need a question_id header here; there is no column picker on the command line
+async function readQuestionRows(inputPath: string, options: ImportOptions): Promise<ParseResult> {
+  if (!isSpreadsheetFile(inputPath)) {
+    return parseCSVText(await readFile(inputPath, 'utf8'), options);
+  }
+  const data = await readFile(inputPath);
+  const detected = detectSheet(await readSpreadsheet(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)));
+  if (!detected) {
+    throw new Error(`No sheet in ${path.basename(inputPath)} has a "question_id" column`);
+  }
+  return parseSheet(detected.table, detected.idColumn, true, options);
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      report: { type: 'string', short: 'r' },
+      'base-url': { type: 'string', short: 'b' },
+      format: { type: 'string', short: 'f', default: 'html' },
+      worksheet: { type: 'boolean', short: 'w', default: false },
+      quiz: { type: 'boolean', default: false },
+      'quiz-responses': { type: 'boolean', default: false },
+      'self-contained': { type: 'boolean', short: 's', default: false },
+      mathml: { type: 'boolean', default: false },
+      versions: { type: 'string', short: 'v' },
+      seed: { type: 'string' },
+      retries: { type: 'string' },
+      'id-pattern': { type: 'string' },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const format = values.format ?? 'html';
+  if (!(format in FORMAT_EXTENSIONS)) {
+    console.error(`--format must be one of ${Object.keys(FORMAT_EXTENSIONS).join(', ')}, got "${format}"`);
+    return 2;
+  }
+
+  // Variants and rendering options of the HTML export; the LMS formats would silently ignore them
+  const htmlOnlyFlags = (['worksheet', 'quiz', 'versions', 'mathml', 'self-contained'] as const)
+    .filter((flag) => values[flag] !== undefined && values[flag] !== false);
+  if (format !== 'html' && htmlOnlyFlags.length > 0) {
+    console.error(`--format ${format} cannot be combined with ${htmlOnlyFlags.map((flag) => `--${flag}`).join(', ')}; they only apply to html`);
+    return 2;
+  }
+  if (values['quiz-responses'] && !values.quiz) {
+    console.error('--quiz-responses only applies together with --quiz');
+    return 2;
+  }
+
+  const inputPath = path.resolve(positionals[0]);
+  const inputBase = inputPath.replace(/\.[^./\\]*$/, '');
+  const selfContained = values['self-contained'];
+  const source = resolveSource(values['base-url'] ?? DEFAULT_BASE_URL);
+  const versionCount = values.versions === undefined ? 0 : Number(values.versions);
+  if (values.versions !== undefined && (!Number.isInteger(versionCount) || versionCount < 1)) {
+    console.error(`--versions must be a positive integer, got "${values.versions}"`);
+    return 2;
+  }
+  const retries = values.retries === undefined ? DEFAULT_RETRY_OPTIONS.retries : Number(values.retries);
+  if (!Number.isInteger(retries) || retries < 0) {
+    console.error(`--retries must be a non-negative integer, got "${values.retries}"`);
+    return 2;
+  }
+  const variant = versionCount > 0 ? 'versions' : values.quiz ? 'quiz' : values.worksheet ? 'worksheet' : 'answers';
+
+  let idPattern = DEFAULT_ID_PATTERN;
+  if (values['id-pattern'] !== undefined) {
+    try {
+      idPattern = new RegExp(values['id-pattern']);
+    } catch {
+      console.error(`--id-pattern is not a valid regular expression: "${values['id-pattern']}"`);
+      return 2;
+    }
+  }
+
+  const { rows, skipped } = await readQuestionRows(inputPath, { idPattern });
+  if (skipped.length > 0) {
+    console.error(`Skipped ${skipped.length} input rows: ${describeSkipped(skipped)}`);
+    if (!values.quiet) {
+      for (const entry of skipped) {
+        console.error(`  line ${entry.line}: ${describeSkipReason(entry)}${entry.value ? ` (${entry.value})` : ''}`);
+      }
+    }
+  }
+  if (rows.length === 0) {
+    console.error('No valid question IDs in the input');
+    return 2;
+  }
+  const questionIds = rows.map((row) => row.questionId);
+  if (!values.quiet) {
+    console.error(`Exporting ${questionIds.length} questions from ${source.label}`);
+  }
+
+  const onProgress = (loaded: number, total: number, phase: string) => {
+    if (!values.quiet) {
+      process.stderr.write(`\r${phase}: ${loaded}/${total}   `);
+      if (loaded === total) process.stderr.write('\n');
+    }
+  };
+
+  const fetchOptions = { source, retry: { retries } };
+  let result: ExportResult;
+  let unmappedParts: UnmappedPart[] | undefined;
+  if (format === 'qti') {
+    const qtiResult = await generateExportQTI(questionIds, onProgress, fetchOptions);
+    unmappedParts = qtiResult.unmappedParts;
+    result = qtiResult;
+  } else if (format === 'moodle-xml' || format === 'gift') {
+    const moodleResult = await generateExportMoodle(questionIds, format === 'gift' ? 'gift' : 'xml', onProgress, fetchOptions);
+    unmappedParts = moodleResult.unmappedParts;
+    result = moodleResult;
+  } else {
+    const mathOutput = values.mathml ? 'mathml' : 'html';
+    result = await generateExportHTML(questionIds, onProgress, {
+      ...fetchOptions,
+      rows,
+      variant,
+      versionCount,
+      versionSeed: values.seed,
+      selfContained,
+      mathOutput,
+      quizResponses: values['quiz-responses'],
+    });
+  }
+
+  const extension = result.fileName?.endsWith('.html') ? '.html' : FORMAT_EXTENSIONS[format];
+  const outputPath = path.resolve(values.output ?? inputBase + extension);
+  const reportPath = path.resolve(values.report ?? outputPath.replace(/(\.gift)?\.[^./\\]*$/i, '') + '.report.json');
+
+  await writeFile(outputPath, new Uint8Array(await result.blob.arrayBuffer()));
+
+  const report = {
+    input: inputPath,
+    output: outputPath,
+    source: source.label,
+    requestedCount: questionIds.length,
+    skippedRows: skipped.map(({ line, value, reason, duplicateOf }) => ({ line, value, reason, duplicateOf })),
+    successCount: result.successCount,
+    failedIds: result.failedIds,
+    failedImagePaths: result.failedImagePaths,
+    validationIssues: result.validationIssues,
+    versionSeed: result.versionSeed,
+    unmappedParts,
+    failedInlineUrls: result.failedInlineUrls,
+    sanitizerRemovals: result.sanitizerRemovals,
+    mathErrors: result.mathErrors,
+    questions: result.report.questions,
+  };
+  await writeFile(reportPath, JSON.stringify(report, null, 2) + '\n');
+
+  const failedInlineCount = result.failedInlineUrls?.length ?? 0;
+  const hasFailures = result.failedIds.length > 0 || result.failedImagePaths.length > 0 || failedInlineCount > 0;
+  if (!values.quiet || hasFailures) {
+    console.error(
+      `Exported ${result.successCount}/${questionIds.length} questions to ${outputPath}` +
+      (hasFailures
+        ? ` (failed: ${result.failedIds.length} questions, ${result.failedImagePaths.length} images` +
+          (failedInlineCount > 0 ? `, ${failedInlineCount} assets that still load from the network` : '') +
+          `; see ${reportPath})`
+        : '')
+    );
+  }
+  if (!values.quiet && result.validationIssues.length > 0) {
+    console.error(`${result.validationIssues.length} schema issues in the question data; see ${reportPath}`);
+  }
+  if (!values.quiet && result.sanitizerRemovals?.length) {
+    console.error(`Removed ${result.sanitizerRemovals.length} unsafe elements or attributes from the question HTML; see ${reportPath}`);
+  }
+  if (!values.quiet && result.mathErrors?.length) {
+    console.error(`${result.mathErrors.length} math expressions could not be parsed and are shown as errors; see ${reportPath}`);
+  }
+
+  return hasFailures ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 2;
+  }
+);
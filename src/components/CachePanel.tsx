@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { questionCache, type CacheStats } from '../utils/questionCache';
+
+interface CachePanelProps {
+    offline: boolean;
+    onOfflineChange: (offline: boolean) => void;
+    onError: (message: string) => void;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function CachePanel({ offline, onOfflineChange, onError }: CachePanelProps) {
+    const [expanded, setExpanded] = useState(false);
+    const [stats, setStats] = useState<CacheStats | null>(null);
+
+    const refresh = async () => {
+        try {
+            setStats(await questionCache.getStats());
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to read the cache');
+        }
+    };
+
+    const toggle = () => {
+        if (!expanded) refresh();
+        setExpanded((prev) => !prev);
+    };
+
+    const clear = async () => {
+        try {
+            await questionCache.clear();
+            await refresh();
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to clear the cache');
+        }
+    };
+
+    return (
+        <div className="cache-panel">
+            <div className="cache-panel-bar">
+                <label className="export-field">
+                    <input type="checkbox" checked={offline} onChange={(e) => onOfflineChange(e.target.checked)} />
+                    Work offline from cache
+                </label>
+                <button className="cache-panel-toggle" onClick={toggle}>
+                    {expanded ? 'Hide cache' : 'Manage cache'}
+                </button>
+            </div>
+            {expanded && stats && (
+                <div className="cache-panel-body">
+                    <div className="cache-panel-summary">
+                        <span>
+                            {stats.questions.length} {stats.questions.length === 1 ? 'question' : 'questions'} ·{' '}
+                            {formatBytes(stats.totalBytes)} of {formatBytes(stats.maxBytes)}
+                        </span>
+                        <button className="btn btn-secondary" onClick={refresh}>Refresh</button>
+                        <button className="btn btn-danger" onClick={clear} disabled={stats.questions.length === 0}>
+                            Clear cache
+                        </button>
+                    </div>
+                    {stats.questions.length > 0 && (
+                        <table className="validation-table">
+                            <thead>
+                                <tr>
+                                    <th>Question</th>
+                                    <th>Files</th>
+                                    <th>Size</th>
+                                    <th>Last used</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {stats.questions.map((entry) => (
+                                    <tr key={entry.questionId}>
+                                        <td>{entry.questionId}</td>
+                                        <td>{entry.files}</td>
+                                        <td>{formatBytes(entry.bytes)}</td>
+                                        <td>{new Date(entry.lastUsed).toLocaleString()}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+
+interface CurateBarProps {
+    questionCount: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    disabled: boolean;
+    // position is 0-based; the text is parsed like a pasted ID list
+    onInsert: (text: string, position: number) => boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onDownloadCSV: () => void;
+}
+
+// Editing tools above the questions grid. Reordering and removing happen on the cards themselves.
+export default function CurateBar({ questionCount, canUndo, canRedo, disabled, onInsert, onUndo, onRedo, onDownloadCSV }: CurateBarProps) {
+    const [ids, setIds] = useState('');
+    // 1-based as shown to the user; empty means the end of the list
+    const [position, setPosition] = useState('');
+
+    const insert = () => {
+        const requested = Number(position);
+        const index = position && Number.isFinite(requested)
+            ? Math.max(0, Math.min(questionCount, Math.round(requested) - 1))
+            : questionCount;
+        if (onInsert(ids, index)) {
+            setIds('');
+            setPosition('');
+        }
+    };
+
+    return (
+        <div className="curate-bar">
+            <input
+                type="text"
+                className="curate-ids"
+                placeholder="IDs to insert, e.g. 1201, 1205-1210"
+                value={ids}
+                onChange={(e) => setIds(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === 'Enter' && ids.trim()) insert();
+                }}
+                disabled={disabled}
+            />
+            <label className="export-field">
+                At position
+                <input
+                    type="number"
+                    min={1}
+                    max={questionCount + 1}
+                    placeholder={String(questionCount + 1)}
+                    value={position}
+                    onChange={(e) => setPosition(e.target.value)}
+                    disabled={disabled}
+                />
+            </label>
+            <button className="btn btn-secondary" onClick={insert} disabled={disabled || !ids.trim()}>
+                <span className="btn-icon">➕</span>
+                Insert
+            </button>
+            <button className="btn btn-secondary" onClick={onUndo} disabled={disabled || !canUndo} title="Undo (Ctrl+Z)">
+                <span className="btn-icon">↶</span>
+                Undo
+            </button>
+            <button className="btn btn-secondary" onClick={onRedo} disabled={disabled || !canRedo} title="Redo (Ctrl+Shift+Z)">
+                <span className="btn-icon">↷</span>
+                Redo
+            </button>
+            <button className="btn btn-secondary" onClick={onDownloadCSV}>
+                <span className="btn-icon">⬇</span>
+                Download as CSV
+            </button>
+        </div>
+    );
+}
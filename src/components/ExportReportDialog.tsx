@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { getFailedReportIds, type ExportReport, type ImageReportEntry } from '../utils/exportReport';
+
+interface ExportReportDialogProps {
+    report: ExportReport;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+    exported: 'Exported',
+    'missing-images': 'Missing images',
+    failed: 'Failed',
+};
+
+function describeOutcome(httpStatus: number | null, error: string | null): string {
+    if (httpStatus !== null) return `HTTP ${httpStatus}${error && error !== `HTTP ${httpStatus}` ? ` — ${error}` : ''}`;
+    return error ?? '';
+}
+
+function describeImage(image: ImageReportEntry): string {
+    const name = image.path.split('/').slice(2).join('/') || image.path;
+    return image.ok ? `✅ ${name}` : `❌ ${name} (${describeOutcome(image.httpStatus, image.error)})`;
+}
+
+export default function ExportReportDialog({ report, onClose }: ExportReportDialogProps) {
+    const [copied, setCopied] = useState(false);
+    const failedIds = getFailedReportIds(report);
+    const missingImageCount = report.questions.filter((entry) => entry.status === 'missing-images').length;
+
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [onClose]);
+
+    const copyFailedIds = async () => {
+        try {
+            await navigator.clipboard.writeText(failedIds.join('\n'));
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            setCopied(false);
+        }
+    };
+
+    return (
+        <div className="dialog-backdrop" onClick={onClose}>
+            <div className="dialog" role="dialog" aria-modal="true" aria-labelledby="export-report-title" onClick={(e) => e.stopPropagation()}>
+                <div className="dialog-header">
+                    <h2 id="export-report-title">Export report</h2>
+                    <button className="dialog-close" onClick={onClose} aria-label="Close">✕</button>
+                </div>
+                <p className="dialog-summary">
+                    {report.exportedCount}/{report.requestedCount} questions exported as {report.format}
+                    {report.failedCount > 0 && ` · ${report.failedCount} failed`}
+                    {missingImageCount > 0 && ` · ${missingImageCount} with missing images`}
+                </p>
+                <div className="dialog-body">
+                    <table className="report-table">
+                        <thead>
+                            <tr>
+                                <th>Question</th>
+                                <th>Status</th>
+                                <th>Error</th>
+                                <th>Part types</th>
+                                <th>Images</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.questions.map((entry) => (
+                                <tr key={entry.questionId} className={`report-${entry.status}`}>
+                                    <td>{entry.questionId}</td>
+                                    <td>{STATUS_LABELS[entry.status]}</td>
+                                    <td>{describeOutcome(entry.httpStatus, entry.error)}</td>
+                                    <td>{entry.partTypes.join(', ')}</td>
+                                    <td>
+                                        {entry.imageCount === 0 ? '—' : (
+                                            <details>
+                                                <summary>
+                                                    {entry.imageCount - entry.images.filter((image) => !image.ok).length}/{entry.imageCount}
+                                                </summary>
+                                                <ul>
+                                                    {entry.images.map((image) => (
+                                                        <li key={image.path}>{describeImage(image)}</li>
+                                                    ))}
+                                                </ul>
+                                            </details>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="dialog-actions">
+                    <button className="btn btn-secondary" onClick={copyFailedIds} disabled={failedIds.length === 0}>
+                        <span className="btn-icon">📋</span>
+                        {copied ? 'Copied!' : `Copy failed IDs (${failedIds.length})`}
+                    </button>
+                    <button className="btn btn-primary" onClick={onClose}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+}
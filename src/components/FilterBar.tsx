@@ -0,0 +1,83 @@
+// 'not-rendered' covers off-screen cards and cards still waiting for an engine
+export type StatusFilter = 'all' | 'not-rendered' | 'loading' | 'loaded' | 'error';
+
+export interface QuestionFilter {
+    status: StatusFilter;
+    // '' matches every part type / language
+    partType: string;
+    language: string;
+    search: string;
+}
+
+export const EMPTY_FILTER: QuestionFilter = { status: 'all', partType: '', language: '', search: '' };
+
+interface FilterBarProps {
+    filter: QuestionFilter;
+    onChange: (filter: QuestionFilter) => void;
+    partTypes: string[];
+    languages: string[];
+    matchCount: number;
+    totalCount: number;
+    // How many questions' JSON has been read so far for type, language and search
+    metadataCount: number;
+}
+
+export function isFilterActive(filter: QuestionFilter): boolean {
+    return filter.status !== 'all' || filter.partType !== '' || filter.language !== '' || filter.search.trim() !== '';
+}
+
+export default function FilterBar({ filter, onChange, partTypes, languages, matchCount, totalCount, metadataCount }: FilterBarProps) {
+    const active = isFilterActive(filter);
+
+    return (
+        <div className="filter-bar">
+            <input
+                type="search"
+                className="filter-search"
+                placeholder="Search question text, answers or ID"
+                value={filter.search}
+                onChange={(e) => onChange({ ...filter, search: e.target.value })}
+            />
+            <select
+                className="export-select"
+                value={filter.status}
+                onChange={(e) => onChange({ ...filter, status: e.target.value as StatusFilter })}
+            >
+                <option value="all">Any status</option>
+                <option value="not-rendered">Not yet rendered</option>
+                <option value="loading">Loading</option>
+                <option value="loaded">Loaded</option>
+                <option value="error">Failed</option>
+            </select>
+            <select
+                className="export-select"
+                value={filter.partType}
+                onChange={(e) => onChange({ ...filter, partType: e.target.value })}
+            >
+                <option value="">Any part type</option>
+                {partTypes.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                ))}
+            </select>
+            <select
+                className="export-select"
+                value={filter.language}
+                onChange={(e) => onChange({ ...filter, language: e.target.value })}
+            >
+                <option value="">Any language</option>
+                {languages.map((language) => (
+                    <option key={language} value={language}>{language}</option>
+                ))}
+            </select>
+            {active && (
+                <button className="btn btn-secondary" onClick={() => onChange(EMPTY_FILTER)}>
+                    Clear filters
+                </button>
+            )}
+            <span className="filter-summary">
+                {active ? `${matchCount} of ${totalCount} shown` : `${totalCount} questions`}
+                {metadataCount < totalCount && ` · reading question data ${metadataCount}/${totalCount}…`}
+            </span>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { applyImportFixes, describeSkipReason, type ParseResult } from '../utils/csvParser';
+
+interface ImportPreviewProps {
+    result: ParseResult;
+    onProceed: (result: ParseResult) => void;
+    onCancel: () => void;
+}
+
+// Lists every skipped input row before anything is loaded. IDs can be corrected
+// in place; corrected rows are checked again and join the import at their original position.
+export default function ImportPreview({ result, onProceed, onCancel }: ImportPreviewProps) {
+    const [current, setCurrent] = useState(result);
+    const [fixes, setFixes] = useState<Record<number, string>>({});
+
+    const pendingFixes = Object.fromEntries(Object.entries(fixes).filter(([, value]) => value.trim()));
+    const hasPendingFixes = Object.keys(pendingFixes).length > 0;
+
+    const applyFixes = () => {
+        setCurrent(applyImportFixes(current, pendingFixes));
+        setFixes({});
+    };
+
+    const proceed = () => onProceed(hasPendingFixes ? applyImportFixes(current, pendingFixes) : current);
+
+    return (
+        <div className="import-preview">
+            <h3>Review import</h3>
+            <p>
+                {current.rows.length} {current.rows.length === 1 ? 'question' : 'questions'} ready ·{' '}
+                {current.skipped.length} {current.skipped.length === 1 ? 'row' : 'rows'} skipped.
+                Type a corrected ID to bring a row back in.
+            </p>
+            {current.skipped.length > 0 && (
+                <div className="import-preview-table">
+                    <table className="validation-table">
+                        <thead>
+                            <tr>
+                                <th>Line</th>
+                                <th>Value</th>
+                                <th>Reason</th>
+                                <th>Fix</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {current.skipped.map((entry) => (
+                                <tr key={entry.index} className={`skip-${entry.reason}`}>
+                                    <td>{entry.line}</td>
+                                    <td><code>{entry.value || '—'}</code></td>
+                                    <td>{describeSkipReason(entry)}</td>
+                                    <td>
+                                        <input
+                                            type="text"
+                                            className="import-fix-input"
+                                            placeholder="Corrected ID"
+                                            value={fixes[entry.index] ?? ''}
+                                            onChange={(e) => setFixes({ ...fixes, [entry.index]: e.target.value })}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <div className="dialog-actions">
+                <button className="btn btn-secondary" onClick={onCancel}>Cancel</button>
+                <button className="btn btn-secondary" onClick={applyFixes} disabled={!hasPendingFixes}>
+                    Apply fixes
+                </button>
+                <button className="btn btn-primary" onClick={proceed} disabled={current.rows.length === 0 && !hasPendingFixes}>
+                    Proceed with {current.rows.length} {current.rows.length === 1 ? 'question' : 'questions'}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,42 @@
 import { useRef, useEffect, useState } from 'react';
+import { inlineQuestionAssets, type QuestionSource } from '../utils/questionSource';
+import { formatIssue, validateQuestion, type ValidationIssue } from '../utils/questionValidation';
+import type { EnginePool, ReleaseSlot } from '../utils/enginePool';
+import { getLocale } from '../utils/locales';
+
+// 'pending': no engine yet, because the card is off screen or waiting for a pool slot
+export type RendererStatus = 'pending' | 'loading' | 'loaded' | 'error';
 
 interface QuestionRendererProps {
     questionId: string;
     index: number;
-    onStatusChange: (id: string, status: 'loading' | 'loaded' | 'error') => void;
+    source: QuestionSource;
+    enginePool: EnginePool;
+    onStatusChange: (id: string, status: RendererStatus) => void;
+    onValidated: (id: string, issues: ValidationIssue[]) => void;
+    // Card at `from` dropped onto the card at `to`
+    onMove: (from: number, to: number) => void;
+    onRemove: (id: string) => void;
 }
 
 const ENGINE_URL = 'https://classes-resources.nagwa.com/engines/unzipped/nagwa_questions_engine/index.html';
 const ENGINE_ORIGIN = new URL(ENGINE_URL).origin;
-const BASE_URL = '/api/questions';
-type RendererStatus = 'loading' | 'loaded' | 'error';
+// Engines start this far ahead of the viewport and are torn down once a card is further away
+const VIEWPORT_MARGIN = '800px 0px';
+// An engine that never reports questionRendered gives its pool slot back after this long
+const ENGINE_SLOT_TIMEOUT_MS = 15000;
+
+// Cards are dragged by their handle; the type keeps files and text from other apps out
+const DRAG_TYPE = 'application/x-question-index';
+// Set on <body> while a card is dragged so the iframes underneath do not swallow the drop
+const DRAGGING_CLASS = 'dragging-question';
+
+const STATUS_CLASSES: Record<RendererStatus, string> = {
+    pending: 'status-pending',
+    loading: 'status-loading',
+    loaded: 'status-loaded',
+    error: 'status-error',
+};
 
 function parseMessageData(data: unknown): Record<string, unknown> | null {
     const parsed = typeof data === 'string' ? (() => {
@@ -27,71 +54,134 @@ function parseMessageData(data: unknown): Record<string, unknown> | null {
     return parsed as Record<string, unknown>;
 }
 
-export default function QuestionRenderer({ questionId, index, onStatusChange }: QuestionRendererProps) {
+export default function QuestionRenderer({ questionId, index, source, enginePool, onStatusChange, onValidated, onMove, onRemove }: QuestionRendererProps) {
+    const cardRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const iframeRef = useRef<HTMLIFrameElement | null>(null);
+    const releaseRef = useRef<ReleaseSlot | null>(null);
+    // Last height the engine reported; kept while the iframe is unmounted so the grid does not jump
     const [height, setHeight] = useState(250);
     const [error, setError] = useState<string | null>(null);
-    const [status, setStatus] = useState<RendererStatus>('loading');
+    const [status, setStatus] = useState<RendererStatus>('pending');
+    const statusRef = useRef<RendererStatus>('pending');
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+    const [nearViewport, setNearViewport] = useState(false);
+    const [mounted, setMounted] = useState(false);
+    const [dropTarget, setDropTarget] = useState(false);
+
+    useEffect(() => {
+        const card = cardRef.current;
+        if (!card) return;
+        if (typeof IntersectionObserver === 'undefined') {
+            setNearViewport(true);
+            return;
+        }
+        const observer = new IntersectionObserver(
+            ([entry]) => setNearViewport(entry.isIntersecting),
+            { rootMargin: VIEWPORT_MARGIN }
+        );
+        observer.observe(card);
+        return () => observer.disconnect();
+    }, []);
 
     useEffect(() => {
         const container = containerRef.current;
-        if (!container) return;
+        if (!container || !nearViewport) return;
 
         const controller = new AbortController();
-        const basePath = `${BASE_URL}/${questionId}`;
+        const basePath = source.assetsBasePath(questionId);
+        let iframe: HTMLIFrameElement | null = null;
+        let slotTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const update = (next: RendererStatus) => {
+            statusRef.current = next;
+            setStatus(next);
+            onStatusChange(questionId, next);
+        };
 
         setError(null);
-        setStatus('loading');
-        onStatusChange(questionId, 'loading');
-
-        const iframe = document.createElement('iframe');
-        iframeRef.current = iframe;
-        iframe.style.width = '100%';
-        iframe.style.border = 'none';
-        iframe.style.minHeight = '200px';
-        iframe.style.height = `${height}px`;
-
-        iframe.onload = async () => {
-            try {
-                const resp = await fetch(`${basePath}/${questionId}.json`, { signal: controller.signal });
-                if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-                const questionJson = await resp.json();
-                if (controller.signal.aborted) return;
-
-                iframe.contentWindow?.postMessage(
-                    JSON.stringify({
-                        action: 'init',
-                        payload: {
-                            question: questionJson,
-                            assetsBasePath: basePath,
-                            mode: 'session_tutor',
-                            locale: questionJson.language_code || 'en',
-                            direction: questionJson.language_code === 'ar' ? 'rtl' : 'ltr',
-                        },
-                    }),
-                    ENGINE_ORIGIN
-                );
-                setStatus('loaded');
-                onStatusChange(questionId, 'loaded');
-            } catch (err) {
-                if (controller.signal.aborted) return;
-                setError(err instanceof Error ? err.message : 'Unknown error');
-                setStatus('error');
-                onStatusChange(questionId, 'error');
-            }
+        setIssues([]);
+        update('pending');
+
+        const mount = (release: ReleaseSlot) => {
+            releaseRef.current = release;
+            slotTimer = setTimeout(release, ENGINE_SLOT_TIMEOUT_MS);
+            update('loading');
+
+            iframe = document.createElement('iframe');
+            iframeRef.current = iframe;
+            iframe.style.width = '100%';
+            iframe.style.border = 'none';
+            iframe.style.minHeight = '200px';
+            iframe.style.height = `${height}px`;
+
+            iframe.onload = async () => {
+                try {
+                    const fetched = await source.getQuestion(questionId, controller.signal);
+                    if (controller.signal.aborted) return;
+                    const { question, issues: found } = validateQuestion(fetched, questionId);
+                    setIssues(found);
+                    onValidated(questionId, found);
+                    if (!question) {
+                        throw new Error(found[0]?.message ?? 'Invalid question JSON');
+                    }
+
+                    // The engine gets the JSON exactly as stored; validation only informs the report
+                    const questionJson = basePath === null
+                        ? await inlineQuestionAssets(fetched, questionId, source, controller.signal)
+                        : fetched;
+                    if (controller.signal.aborted) return;
+
+                    iframe?.contentWindow?.postMessage(
+                        JSON.stringify({
+                            action: 'init',
+                            payload: {
+                                question: questionJson,
+                                assetsBasePath: basePath ?? '',
+                                mode: 'session_tutor',
+                                locale: question.language_code,
+                                direction: getLocale(question.language_code).dir,
+                            },
+                        }),
+                        ENGINE_ORIGIN
+                    );
+                    update('loaded');
+                } catch (err) {
+                    if (controller.signal.aborted) return;
+                    release();
+                    setError(err instanceof Error ? err.message : 'Unknown error');
+                    update('error');
+                }
+            };
+
+            iframe.src = ENGINE_URL;
+            container.appendChild(iframe);
+            setMounted(true);
         };
 
-        iframe.src = ENGINE_URL;
-        container.appendChild(iframe);
+        enginePool.acquire(controller.signal).then(mount, () => undefined);
 
         return () => {
             controller.abort();
-            iframe.onload = null;
-            iframe.remove();
+            clearTimeout(slotTimer);
+            releaseRef.current?.();
+            releaseRef.current = null;
+            if (iframe) {
+                iframe.onload = null;
+                iframe.remove();
+            }
             iframeRef.current = null;
+            setMounted(false);
+            // A card scrolled away before it finished counts as not rendered again;
+            // loaded and failed cards keep their status
+            if (statusRef.current === 'loading') {
+                statusRef.current = 'pending';
+                setStatus('pending');
+                onStatusChange(questionId, 'pending');
+            }
         };
-    }, [questionId, onStatusChange]);
+        // height only sizes the new iframe initially, so it is deliberately not a dependency
+    }, [questionId, source, enginePool, nearViewport, onStatusChange, onValidated]);
 
     useEffect(() => {
         const handleMessage = (event: MessageEvent) => {
@@ -118,6 +208,9 @@ export default function QuestionRenderer({ questionId, index, onStatusChange }:
             }
 
             if (messageKey === 'questionRendered') {
+                releaseRef.current?.();
+                releaseRef.current = null;
+                if (statusRef.current !== 'error') statusRef.current = 'loaded';
                 setStatus((prev) => (prev === 'error' ? prev : 'loaded'));
                 onStatusChange(questionId, 'loaded');
             }
@@ -127,25 +220,81 @@ export default function QuestionRenderer({ questionId, index, onStatusChange }:
         return () => window.removeEventListener('message', handleMessage);
     }, [questionId, onStatusChange]);
 
-    const statusClass = status === 'error' ? 'status-error' : status === 'loaded' ? 'status-loaded' : 'status-loading';
-    const statusText = status === 'error' ? `Error: ${error}` : status === 'loaded' ? 'Loaded' : 'Loading...';
+    const onDragStart = (e: React.DragEvent) => {
+        e.dataTransfer.setData(DRAG_TYPE, String(index));
+        e.dataTransfer.effectAllowed = 'move';
+        if (cardRef.current) e.dataTransfer.setDragImage(cardRef.current, 20, 20);
+        document.body.classList.add(DRAGGING_CLASS);
+    };
+
+    const onDragEnd = () => document.body.classList.remove(DRAGGING_CLASS);
+
+    const onDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTarget(true);
+    };
+
+    const onDrop = (e: React.DragEvent) => {
+        setDropTarget(false);
+        const from = Number(e.dataTransfer.getData(DRAG_TYPE));
+        if (!e.dataTransfer.types.includes(DRAG_TYPE) || !Number.isInteger(from)) return;
+        e.preventDefault();
+        if (from !== index) onMove(from, index);
+    };
+
+    const statusClass = STATUS_CLASSES[status];
+    const statusText = status === 'error'
+        ? `Error: ${error}`
+        : status === 'loaded' ? 'Loaded' : status === 'loading' ? 'Loading...' : nearViewport ? 'Queued' : 'Not rendered';
+    const errorIssueCount = issues.filter((issue) => issue.severity === 'error').length;
 
     return (
-        <div className="question-card">
+        <div
+            className={`question-card ${dropTarget ? 'drop-target' : ''}`}
+            ref={cardRef}
+            onDragOver={onDragOver}
+            onDragLeave={() => setDropTarget(false)}
+            onDrop={onDrop}
+        >
             <div className="question-card-header">
+                <span
+                    className="question-drag-handle"
+                    draggable
+                    onDragStart={onDragStart}
+                    onDragEnd={onDragEnd}
+                    title="Drag to reorder"
+                >
+                    ⠿
+                </span>
                 <span className="question-id">
                     #{index + 1} — {questionId}
                 </span>
+                {issues.length > 0 && (
+                    <span
+                        className={`question-issues ${errorIssueCount > 0 ? 'issues-error' : 'issues-warning'}`}
+                        title={issues.map(formatIssue).join('\n')}
+                    >
+                        ⚠ {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+                    </span>
+                )}
                 <span className={`question-status ${statusClass}`}>
                     <span className="status-dot"></span>
                     {statusText}
                 </span>
+                <button className="question-remove" onClick={() => onRemove(questionId)} title="Remove from list">
+                    ✕
+                </button>
+            </div>
+            <div className="question-iframe-container" style={{ height: `${height}px` }}>
+                {!mounted && (
+                    <div className="question-placeholder">
+                        {nearViewport ? 'Waiting for a free engine…' : 'Scroll into view to render'}
+                    </div>
+                )}
+                <div ref={containerRef} />
             </div>
-            <div
-                className="question-iframe-container"
-                ref={containerRef}
-                style={{ height: `${height}px` }}
-            />
         </div>
     );
 }
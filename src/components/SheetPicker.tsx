@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { SheetTable } from '../utils/csvParser';
+
+interface SheetPickerProps {
+    fileName: string;
+    tables: SheetTable[];
+    onConfirm: (table: SheetTable, idColumn: number, hasHeader: boolean) => void;
+    onCancel: () => void;
+}
+
+// Spreadsheet column letters: 0 → A, 25 → Z, 26 → AA
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Shown when no sheet has a recognisable question_id header
+export default function SheetPicker({ fileName, tables, onConfirm, onCancel }: SheetPickerProps) {
+    const [sheetIndex, setSheetIndex] = useState(0);
+    const [idColumn, setIdColumn] = useState(0);
+    const [hasHeader, setHasHeader] = useState(true);
+
+    const table = tables[sheetIndex];
+    const columnCount = Math.max(0, ...table.cells.map((row) => row.length));
+    const columns = Array.from({ length: columnCount }, (_, i) => i);
+    const header = table.cells[0] ?? [];
+
+    const selectSheet = (index: number) => {
+        setSheetIndex(index);
+        setIdColumn(0);
+    };
+
+    return (
+        <div className="sheet-picker">
+            <h3>Which column holds the question IDs?</h3>
+            <p>No sheet in {fileName} has a "question_id" header. Pick the sheet and column to read.</p>
+            <div className="sheet-picker-controls">
+                <label className="export-field">
+                    Sheet
+                    <select className="export-select" value={sheetIndex} onChange={(e) => selectSheet(Number(e.target.value))}>
+                        {tables.map((option, i) => (
+                            <option key={option.name} value={i}>{option.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="export-field">
+                    Column
+                    <select
+                        className="export-select"
+                        value={idColumn}
+                        onChange={(e) => setIdColumn(Number(e.target.value))}
+                        disabled={columnCount === 0}
+                    >
+                        {columns.map((column) => (
+                            <option key={column} value={column}>
+                                {columnName(column)}{hasHeader && header[column] ? ` — ${header[column]}` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="export-field">
+                    <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                    First row is a header
+                </label>
+            </div>
+            {columnCount > 0 && (
+                <table className="validation-table sheet-preview">
+                    <tbody>
+                        {table.cells.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                            <tr key={rowIndex} className={hasHeader && rowIndex === 0 ? 'sheet-preview-header' : ''}>
+                                {columns.map((column) => (
+                                    <td key={column} className={column === idColumn ? 'sheet-preview-selected' : ''}>
+                                        {row[column] ?? ''}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <div className="dialog-actions">
+                <button className="btn btn-secondary" onClick={onCancel}>Cancel</button>
+                <button className="btn btn-primary" onClick={() => onConfirm(table, idColumn, hasHeader)} disabled={columnCount === 0}>
+                    Load IDs
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+    createDirectoryHandleSource,
+    createFileListSource,
+    createZipSource,
+    type QuestionSource,
+    type QuestionSourceKind,
+} from '../utils/questionSource';
+import { createCachedHttpSource } from '../utils/questionCache';
+
+interface SourcePickerProps {
+    source: QuestionSource;
+    onChange: (source: QuestionSource) => void;
+    onError: (message: string) => void;
+}
+
+type DirectoryPickerWindow = Window & {
+    showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle>;
+};
+
+const SOURCE_OPTIONS: { kind: QuestionSourceKind; icon: string; label: string }[] = [
+    { kind: 'http', icon: '🌐', label: 'Online' },
+    { kind: 'directory', icon: '🗂️', label: 'Local folder' },
+    { kind: 'zip', icon: '🗜️', label: 'ZIP of questions' },
+];
+
+export default function SourcePicker({ source, onChange, onError }: SourcePickerProps) {
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const zipInputRef = useRef<HTMLInputElement>(null);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        // React has no typed prop for this non-standard attribute
+        folderInputRef.current?.setAttribute('webkitdirectory', '');
+    }, []);
+
+    const pickFolder = async () => {
+        const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+        if (!picker) {
+            folderInputRef.current?.click();
+            return;
+        }
+        try {
+            onChange(createDirectoryHandleSource(await picker()));
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            onError(err instanceof Error ? err.message : 'Failed to open folder');
+        }
+    };
+
+    const onSelect = (kind: QuestionSourceKind) => {
+        if (kind === 'http') onChange(createCachedHttpSource());
+        if (kind === 'directory') pickFolder();
+        if (kind === 'zip') zipInputRef.current?.click();
+    };
+
+    const onFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = e.target.files;
+        if (files?.length) onChange(createFileListSource(files));
+        e.target.value = '';
+    };
+
+    const onZipInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setBusy(true);
+        try {
+            onChange(await createZipSource(file));
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to read ZIP');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="source-picker">
+            <span className="source-picker-label">Question source:</span>
+            {SOURCE_OPTIONS.map((option) => (
+                <button
+                    key={option.kind}
+                    type="button"
+                    className={`source-option ${source.kind === option.kind ? 'active' : ''}`}
+                    onClick={() => onSelect(option.kind)}
+                    disabled={busy}
+                >
+                    <span className="btn-icon">{option.icon}</span>
+                    {option.label}
+                </button>
+            ))}
+            <span className="source-picker-current" title={source.label}>
+                {busy ? 'Reading ZIP…' : source.label}
+            </span>
+            <input ref={folderInputRef} type="file" multiple hidden onChange={onFolderInput} />
+            <input ref={zipInputRef} type="file" accept=".zip" hidden onChange={onZipInput} />
+        </div>
+    );
+}
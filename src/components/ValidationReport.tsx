@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import type { ValidationIssue } from '../utils/questionValidation';
+
+interface ValidationReportProps {
+    // Issues per question ID, in the order the questions were loaded
+    issues: Record<string, ValidationIssue[]>;
+}
+
+export default function ValidationReport({ issues }: ValidationReportProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    const allIssues = Object.values(issues).flat();
+    if (allIssues.length === 0) return null;
+
+    const errorCount = allIssues.filter((issue) => issue.severity === 'error').length;
+    const warningCount = allIssues.length - errorCount;
+    const questionCount = Object.values(issues).filter((list) => list.length > 0).length;
+
+    return (
+        <div className={`validation-report ${errorCount > 0 ? 'issues-error' : 'issues-warning'}`}>
+            <button className="validation-summary" onClick={() => setExpanded((prev) => !prev)}>
+                <span>
+                    ⚠ {questionCount} {questionCount === 1 ? 'question has' : 'questions have'} schema issues:{' '}
+                    {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+                </span>
+                <span>{expanded ? 'Hide' : 'Show'}</span>
+            </button>
+            {expanded && (
+                <table className="validation-table">
+                    <thead>
+                        <tr>
+                            <th>Question</th>
+                            <th>Part</th>
+                            <th>Severity</th>
+                            <th>Problem</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {allIssues.map((issue, i) => (
+                            <tr key={`${issue.questionId}-${i}`} className={`severity-${issue.severity}`}>
+                                <td>{issue.questionId}</td>
+                                <td>{issue.partNumber ?? '—'}</td>
+                                <td>{issue.severity}</td>
+                                <td>{issue.message}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { createFileTreeSource, type QuestionSource } from '../utils/questionSource';
+import type { QuestionJSON, QuestionPart } from '../utils/questionTypes';
+
+export function makeQuestion(questionId: string, parts: QuestionPart[], languageCode = 'en'): QuestionJSON {
+    return {
+        question_id: questionId,
+        language_code: languageCode,
+        number_of_parts: parts.length,
+        content: { parts },
+    };
+}
+
+// A folder-style source over questions and asset files held in memory
+export function createMemorySource(questions: QuestionJSON[], assets: Record<string, string> = {}): QuestionSource {
+    const files = new Map<string, string>(Object.entries(assets));
+    for (const question of questions) {
+        files.set(`${question.question_id}/${question.question_id}.json`, JSON.stringify(question));
+    }
+    return createFileTreeSource('directory', 'memory', {
+        read: async (filePath) => {
+            const content = files.get(filePath);
+            return content === undefined ? null : (new TextEncoder().encode(content).buffer as ArrayBuffer);
+        },
+    });
+}
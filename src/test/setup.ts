@@ -0,0 +1,4 @@
+import { DOMParser as LinkedomDOMParser } from 'linkedom';
+
+// Same stand-in the CLI installs: the exporters rewrite question HTML through DOMParser
+globalThis.DOMParser ??= LinkedomDOMParser as unknown as typeof DOMParser;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSVText, parseIdList } from './csvParser';
+
+describe('parseIdList', () => {
+    it('splits on commas, semicolons and whitespace', () => {
+        const { rows, skipped } = parseIdList('q1, q2;q3\n q4\tq5');
+        expect(rows.map((row) => row.questionId)).toEqual(['q1', 'q2', 'q3', 'q4', 'q5']);
+        expect(skipped).toEqual([]);
+    });
+
+    it('expands ranges in either direction and keeps zero padding', () => {
+        expect(parseIdList('007-010').rows.map((row) => row.questionId)).toEqual(['007', '008', '009', '010']);
+        expect(parseIdList('12..10').rows.map((row) => row.questionId)).toEqual(['10', '11', '12']);
+    });
+
+    it('refuses ranges of more than 1000 IDs', () => {
+        const { rows, skipped } = parseIdList('1-1000\n2000-3000');
+        expect(rows).toHaveLength(1000);
+        expect(skipped).toEqual([{ index: 1000, line: 2, value: '2000-3000', reason: 'range-too-large', duplicateOf: null }]);
+    });
+
+    it('reports duplicates and invalid IDs with their lines', () => {
+        const { rows, skipped } = parseIdList('a1\nb/2\n\na1');
+        expect(rows.map((row) => row.questionId)).toEqual(['a1']);
+        expect(skipped).toEqual([
+            { index: 1, line: 2, value: 'b/2', reason: 'id-pattern', duplicateOf: null },
+            { index: 2, line: 4, value: 'a1', reason: 'duplicate', duplicateOf: 1 },
+        ]);
+    });
+
+    it('throws when there is nothing to read', () => {
+        expect(() => parseIdList(' ,; \n')).toThrow('No question IDs found');
+    });
+});
+
+describe('parseCSVText', () => {
+    it('reports every skip reason with the line it came from', () => {
+        const csv = [
+            'question_id,section',
+            'q1,Intro',
+            ',Intro',
+            '',
+            'q1,Later',
+            'bad id,Later',
+            'q2,"unclosed',
+        ].join('\n');
+        const { rows, skipped } = parseCSVText(csv);
+        expect(rows.map((row) => row.questionId)).toEqual(['q1']);
+        expect(skipped.map(({ line, reason, duplicateOf }) => ({ line, reason, duplicateOf }))).toEqual([
+            { line: 3, reason: 'empty-id', duplicateOf: null },
+            { line: 5, reason: 'duplicate', duplicateOf: 2 },
+            { line: 6, reason: 'id-pattern', duplicateOf: null },
+            { line: 7, reason: 'malformed-quoting', duplicateOf: null },
+        ]);
+    });
+
+    it('counts lines inside quoted fields that span several lines', () => {
+        const csv = 'question_id,notes\nq1,"first\nsecond"\n,missing';
+        expect(parseCSVText(csv).skipped.map((entry) => entry.line)).toEqual([4]);
+    });
+
+    it('applies the ID pattern option', () => {
+        const { rows, skipped } = parseCSVText('id\nQ-1\n42', { idPattern: /^\d+$/ });
+        expect(rows.map((row) => row.questionId)).toEqual(['42']);
+        expect(skipped[0]).toMatchObject({ line: 2, value: 'Q-1', reason: 'id-pattern' });
+    });
+
+    it('sorts by the order column and keeps unknown columns', () => {
+        const { rows } = parseCSVText('question_id,order,points,Teacher\nq1,,2,Ann\nq2,1,,Bo');
+        expect(rows).toEqual([
+            { questionId: 'q2', section: null, points: null, order: 1, label: null, notes: null, extra: { Teacher: 'Bo' } },
+            { questionId: 'q1', section: null, points: 2, order: null, label: null, notes: null, extra: { Teacher: 'Ann' } },
+        ]);
+    });
+});
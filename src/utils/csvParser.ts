@@ -1,54 +1,360 @@
 import Papa from 'papaparse';
 
 const QUESTION_ID_KEYS = new Set(['question_id', 'questionid', 'id']);
+const SECTION_KEYS = new Set(['section']);
+const POINTS_KEYS = new Set(['points', 'marks', 'score']);
+const ORDER_KEYS = new Set(['order', 'position']);
+const LABEL_KEYS = new Set(['label']);
+const NOTES_KEYS = new Set(['notes', 'note']);
+
+// One CSV row. Only questionId is required; every other column is optional and
+// columns the app does not know about are kept verbatim in `extra`.
+export interface QuestionRow {
+    questionId: string;
+    section: string | null;
+    points: number | null;
+    order: number | null;
+    label: string | null;
+    notes: string | null;
+    // Unrecognised columns, keyed by their header as written in the CSV
+    extra: Record<string, string>;
+}
+
+export type SkipReason = 'empty-id' | 'duplicate' | 'malformed-quoting' | 'id-pattern' | 'range-too-large';
+
+// One input record (CSV line, sheet row or pasted item) before IDs are checked.
+// Kept in the parse result so fixes made in the import preview can be re-run.
+export interface ImportRecord {
+    // 1-based line of the CSV file or pasted text, or the sheet row
+    line: number;
+    fields: Record<string, unknown>;
+    // Problems found while reading the record itself, before its ID is looked at
+    error: 'malformed-quoting' | 'range-too-large' | null;
+}
+
+export interface SkippedRow {
+    // Position in ParseResult.records; fixes are keyed by it
+    index: number;
+    line: number;
+    value: string;
+    reason: SkipReason;
+    // Line of the first occurrence, for duplicates
+    duplicateOf: number | null;
+}
+
+// What every import path (CSV, spreadsheet, pasted list, ?ids=) returns
+export interface ParseResult {
+    rows: QuestionRow[];
+    skipped: SkippedRow[];
+    records: ImportRecord[];
+}
+
+export interface ImportOptions {
+    // IDs that do not match are skipped; the default accepts anything usable as a path segment
+    idPattern?: RegExp;
+}
+
+// One table of a spreadsheet, as text cells
+export interface SheetTable {
+    name: string;
+    cells: string[][];
+}
+
+// IDs end up in {id}/{id}.json paths, so separators, spaces and dots are refused
+export const DEFAULT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Pasted lists and ?ids= may contain ranges like 1200-1250; larger spans are refused
+const MAX_RANGE_SIZE = 1000;
+
+// Papa puts the cells of rows with more fields than the header under this key
+const PAPA_EXTRA_FIELDS = '__parsed_extra';
+
+const SKIP_LABELS: Record<SkipReason, [string, string]> = {
+    'empty-id': ['empty ID', 'empty IDs'],
+    duplicate: ['duplicate', 'duplicates'],
+    'malformed-quoting': ['malformed quoting', 'malformed quoting'],
+    'id-pattern': ['invalid ID', 'invalid IDs'],
+    'range-too-large': ['range too large', 'ranges too large'],
+};
 
 function normalizeHeaderKey(key: string): string {
     return key.trim().toLowerCase().replace(/[\s-]+/g, '').replace(/[^a-z0-9_]/g, '');
 }
 
-function extractQuestionId(row: Record<string, unknown>): string | null {
+function parseNumber(value: string): number | null {
+    if (!value) return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+// questionId is '' when the record has no ID; collectQuestionRows reports it as skipped
+function toQuestionRow(row: Record<string, unknown>): QuestionRow {
+    const parsed: QuestionRow = { questionId: '', section: null, points: null, order: null, label: null, notes: null, extra: {} };
+
     for (const [key, rawValue] of Object.entries(row)) {
-        if (!QUESTION_ID_KEYS.has(normalizeHeaderKey(key))) {
-            continue;
+        const value = String(rawValue ?? '').trim();
+        const normalized = normalizeHeaderKey(key);
+
+        if (QUESTION_ID_KEYS.has(normalized)) {
+            if (!parsed.questionId) parsed.questionId = value;
+        } else if (SECTION_KEYS.has(normalized)) {
+            parsed.section = value || null;
+        } else if (POINTS_KEYS.has(normalized)) {
+            parsed.points = parseNumber(value);
+        } else if (ORDER_KEYS.has(normalized)) {
+            parsed.order = parseNumber(value);
+        } else if (LABEL_KEYS.has(normalized)) {
+            parsed.label = value || null;
+        } else if (NOTES_KEYS.has(normalized)) {
+            parsed.notes = value || null;
+        } else if (key.trim() && key !== PAPA_EXTRA_FIELDS && value) {
+            parsed.extra[key.trim()] = value;
         }
+    }
 
-        const value = String(rawValue ?? '').trim();
-        if (value) {
-            return value;
+    return parsed;
+}
+
+// Rows with an explicit order come first, sorted by it; the rest keep their file order
+export function sortQuestionRows(rows: QuestionRow[]): QuestionRow[] {
+    return rows
+        .map((row, index) => ({ row, index }))
+        .sort((a, b) => (a.row.order ?? Infinity) - (b.row.order ?? Infinity) || a.index - b.index)
+        .map(({ row }) => row);
+}
+
+// Shared by every input path: skips unreadable records, rows without a valid ID
+// and repeated IDs (keeping the first), and reports each with its line
+function collectQuestionRows(records: ImportRecord[], options: ImportOptions = {}): ParseResult {
+    const idPattern = options.idPattern ?? DEFAULT_ID_PATTERN;
+    const rows: QuestionRow[] = [];
+    const skipped: SkippedRow[] = [];
+    const firstLines = new Map<string, number>();
+
+    records.forEach((record, index) => {
+        const questionRow = toQuestionRow(record.fields);
+        const value = questionRow.questionId;
+        const skip = (reason: SkipReason, duplicateOf: number | null = null) => {
+            skipped.push({ index, line: record.line, value, reason, duplicateOf });
+        };
+
+        if (record.error) {
+            skip(record.error);
+        } else if (!value) {
+            skip('empty-id');
+        } else if (firstLines.has(value)) {
+            skip('duplicate', firstLines.get(value));
+        } else if (!idPattern.test(value)) {
+            skip('id-pattern');
+        } else {
+            firstLines.set(value, record.line);
+            rows.push(questionRow);
         }
+    });
+
+    return { rows: sortQuestionRows(rows), skipped, records };
+}
+
+function numberRecords(records: Record<string, unknown>[], firstLine: number): ImportRecord[] {
+    return records.map((fields, index) => ({ line: firstLine + index, fields, error: null }));
+}
+
+// Replaces the ID of the given records (by index) and checks everything again
+export function applyImportFixes(result: ParseResult, fixes: Record<number, string>, options: ImportOptions = {}): ParseResult {
+    const records = result.records.map((record, index): ImportRecord => {
+        if (!(index in fixes)) return record;
+        const fields: Record<string, unknown> = { question_id: fixes[index].trim() };
+        for (const [key, value] of Object.entries(record.fields)) {
+            if (!QUESTION_ID_KEYS.has(normalizeHeaderKey(key))) fields[key] = value;
+        }
+        return { ...record, fields, error: null };
+    });
+    return collectQuestionRows(records, options);
+}
+
+export function describeSkipReason(entry: SkippedRow): string {
+    if (entry.reason === 'duplicate' && entry.duplicateOf !== null) return `Duplicate of line ${entry.duplicateOf}`;
+    const label = SKIP_LABELS[entry.reason][0];
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function describeSkipped(skipped: SkippedRow[]): string {
+    const counts = new Map<SkipReason, number>();
+    for (const entry of skipped) counts.set(entry.reason, (counts.get(entry.reason) ?? 0) + 1);
+    return [...counts].map(([reason, count]) => `${count} ${SKIP_LABELS[reason][count === 1 ? 0 : 1]}`).join(', ');
+}
+
+// ─── CSV ──────────────────────────────────────────
+
+function countNewlines(text: string, from: number, to: number): number {
+    let count = 0;
+    for (let i = from; i < to && i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) count += 1;
+    }
+    return count;
+}
+
+function lineAt(text: string, offset: number): number {
+    return 1 + countNewlines(text, 0, offset);
+}
+
+// Synchronous variant for callers that already hold the CSV text (e.g. the CLI)
+export function parseCSVText(text: string, options: ImportOptions = {}): ParseResult {
+    const records: ImportRecord[] = [];
+    const headers: string[] = [];
+    // Papa only reports where each row ends, so lines are counted incrementally from there
+    let previousCursor = text.indexOf('\n') + 1;
+    let scannedTo = 0;
+    let line = 1;
+
+    Papa.parse<Record<string, unknown>>(text, {
+        header: true,
+        skipEmptyLines: 'greedy',
+        transformHeader: (header) => {
+            headers.push(header);
+            return header;
+        },
+        step: (result) => {
+            // The row starts at the first non-blank character after the previous row
+            let start = previousCursor;
+            while (start < text.length && /[\r\n]/.test(text[start])) start += 1;
+            line += countNewlines(text, scannedTo, start);
+            scannedTo = start;
+            previousCursor = result.meta.cursor;
+
+            const malformed = result.errors.some((error) => error.type === 'Quotes');
+            records.push({ line, fields: result.data, error: malformed ? 'malformed-quoting' : null });
+        },
+    });
+
+    if (!headers.some((header) => QUESTION_ID_KEYS.has(normalizeHeaderKey(header)))) {
+        throw new Error('No question IDs found in CSV. Make sure the CSV has a column named "question_id".');
     }
+    return collectQuestionRows(records, options);
+}
+
+export async function parseCSV(file: File, options: ImportOptions = {}): Promise<ParseResult> {
+    return parseCSVText(await file.text(), options);
+}
+
+// ─── Spreadsheets (XLSX / ODS) ────────────────────
+
+export function isSpreadsheetFile(name: string): boolean {
+    return /\.(xlsx|xls|ods)$/i.test(name);
+}
+
+// Index of the column whose header names the question ID, or -1
+export function findIdColumn(header: string[]): number {
+    return header.findIndex((cell) => QUESTION_ID_KEYS.has(normalizeHeaderKey(cell)));
+}
+
+function cellToText(value: unknown): string {
+    // Long numeric IDs would come back in scientific notation if taken from the formatted text
+    if (typeof value === 'number' && Number.isInteger(value)) return String(value);
+    return String(value ?? '').trim();
+}
 
+export async function readSpreadsheet(data: ArrayBuffer): Promise<SheetTable[]> {
+    // SheetJS is large, so it is only loaded once someone actually drops a spreadsheet
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(data, { type: 'array' });
+    return workbook.SheetNames.map((name) => ({
+        name,
+        cells: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '', blankrows: true })
+            .map((row) => row.map(cellToText)),
+    }));
+}
+
+// First sheet with a recognisable question_id header, or null when the user has to pick
+export function detectSheet(tables: SheetTable[]): { table: SheetTable; idColumn: number } | null {
+    for (const table of tables) {
+        const idColumn = findIdColumn(table.cells[0] ?? []);
+        if (idColumn >= 0) return { table, idColumn };
+    }
     return null;
 }
 
-export function parseCSV(file: File): Promise<string[]> {
-    return new Promise((resolve, reject) => {
-        Papa.parse(file, {
-            header: true,
-            skipEmptyLines: true,
-            complete: (results) => {
-                const ids: string[] = [];
-                const seen = new Set<string>();
-
-                for (const row of results.data as Record<string, unknown>[]) {
-                    const id = extractQuestionId(row);
-                    if (!id || seen.has(id)) {
-                        continue;
-                    }
-
-                    seen.add(id);
-                    ids.push(id);
-                }
-
-                if (ids.length === 0) {
-                    reject(new Error('No question IDs found in CSV. Make sure the CSV has a column named "question_id".'));
-                } else {
-                    resolve(ids);
-                }
-            },
-            error: (error: Error) => {
-                reject(error);
-            },
+export function parseSheet(table: SheetTable, idColumn: number, hasHeader: boolean, options: ImportOptions = {}): ParseResult {
+    const header = hasHeader ? table.cells[0] ?? [] : [];
+    const body = hasHeader ? table.cells.slice(1) : table.cells;
+    // Trailing blank rows are sheet padding, not skipped entries
+    let end = body.length;
+    while (end > 0 && body[end - 1].every((cell) => !cell)) end -= 1;
+
+    const records = body.slice(0, end).map((cells) => {
+        // The picked column wins over any other ID-like column
+        const record: Record<string, unknown> = { question_id: cells[idColumn] ?? '' };
+        cells.forEach((value, column) => {
+            const key = header[column]?.trim() || `column_${column + 1}`;
+            if (column === idColumn || QUESTION_ID_KEYS.has(normalizeHeaderKey(key)) || key in record) return;
+            record[key] = value;
         });
+        return record;
+    });
+    return collectQuestionRows(numberRecords(records, hasHeader ? 2 : 1), options);
+}
+
+// ─── Pasted lists and ?ids= ───────────────────────
+
+// IDs separated by commas, semicolons, whitespace or newlines; "100-120" or
+// "100..120" expands to every ID in between
+export function parseIdList(text: string, options: ImportOptions = {}): ParseResult {
+    const records: ImportRecord[] = [];
+
+    for (const match of text.matchAll(/[^\s,;]+/g)) {
+        const token = match[0];
+        const line = lineAt(text, match.index ?? 0);
+        const range = /^(\d+)(?:-|\.\.)(\d+)$/.exec(token);
+        if (!range) {
+            records.push({ line, fields: { question_id: token }, error: null });
+            continue;
+        }
+        const [start, end] = [BigInt(range[1]), BigInt(range[2])];
+        const [low, high] = start <= end ? [start, end] : [end, start];
+        if (high - low >= BigInt(MAX_RANGE_SIZE)) {
+            records.push({ line, fields: { question_id: token }, error: 'range-too-large' });
+            continue;
+        }
+        // Keep zero padding, so 007-010 stays 007, 008, 009, 010
+        const width = range[1].length === range[2].length ? range[1].length : 0;
+        for (let id = low; id <= high; id += 1n) {
+            records.push({ line, fields: { question_id: id.toString().padStart(width, '0') }, error: null });
+        }
+    }
+
+    if (records.length === 0) {
+        throw new Error('No question IDs found in the pasted text.');
+    }
+    return collectQuestionRows(records, options);
+}
+
+// ─── Writing the list back out ────────────────────
+
+// CSV text that parseCSV reads back into the same rows, in the same order.
+// Optional columns are only written when some row uses them.
+export function serializeQuestionRows(rows: QuestionRow[]): string {
+    const columns = ['question_id'];
+    if (rows.some((row) => row.section !== null)) columns.push('section');
+    if (rows.some((row) => row.points !== null)) columns.push('points');
+    // Renumbered so the curated order survives the re-import sort
+    if (rows.some((row) => row.order !== null)) columns.push('order');
+    if (rows.some((row) => row.label !== null)) columns.push('label');
+    if (rows.some((row) => row.notes !== null)) columns.push('notes');
+    const extraColumns = [...new Set(rows.flatMap((row) => Object.keys(row.extra)))];
+
+    const data = rows.map((row, index) => {
+        const cells: Record<string, string> = {
+            question_id: row.questionId,
+            section: row.section ?? '',
+            points: row.points === null ? '' : String(row.points),
+            order: String(index + 1),
+            label: row.label ?? '',
+            notes: row.notes ?? '',
+        };
+        return [
+            ...columns.map((column) => cells[column]),
+            ...extraColumns.map((column) => row.extra[column] ?? ''),
+        ];
     });
+    return Papa.unparse({ fields: [...columns, ...extraColumns], data });
 }
@@ -0,0 +1,49 @@
+// Caps how many question engines load at the same time. Each engine iframe pulls
+// in the full engine bundle, so a few hundred starting together stalls the page.
+
+export type ReleaseSlot = () => void;
+
+export interface EnginePool {
+    // Resolves once a slot is free; rejects with the signal's reason if aborted while waiting.
+    // The returned release function is safe to call more than once.
+    acquire: (signal?: AbortSignal) => Promise<ReleaseSlot>;
+}
+
+export const DEFAULT_ENGINE_POOL_SIZE = 4;
+
+export function createEnginePool(limit: number = DEFAULT_ENGINE_POOL_SIZE): EnginePool {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    const grant = (): ReleaseSlot => {
+        active += 1;
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            active -= 1;
+            waiting.shift()?.();
+        };
+    };
+
+    return {
+        acquire: (signal) => new Promise((resolve, reject) => {
+            signal?.throwIfAborted();
+            if (active < limit) {
+                resolve(grant());
+                return;
+            }
+            const start = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(grant());
+            };
+            const onAbort = () => {
+                const index = waiting.indexOf(start);
+                if (index >= 0) waiting.splice(index, 1);
+                reject(signal?.reason);
+            };
+            waiting.push(start);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }),
+    };
+}
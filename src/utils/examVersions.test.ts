@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { buildExamVersions, createSeededRandom, getVersionName } from './examVersions';
+import type { ChoicePart, QuestionJSON } from './questionTypes';
+import { makeQuestion } from '../test/fixtures';
+
+const questions: QuestionJSON[] = Array.from({ length: 6 }, (_, index) => makeQuestion(`q${index + 1}`, [{
+    n: 1,
+    type: 'mcq',
+    stem: `<p>Question ${index + 1}</p>`,
+    choices: ['w', 'x', 'y', 'z'].map((value, choice) => ({ label: '', value, is_correct: choice === index % 4 })),
+}]));
+
+const choicesOf = (question: QuestionJSON) => (question.content.parts[0] as ChoicePart).choices;
+const order = (questionsInVersion: QuestionJSON[]) => questionsInVersion.map((question) => question.question_id);
+
+describe('exam versions', () => {
+    it('regenerates identical versions from the same seed', () => {
+        expect(buildExamVersions(questions, 3, 'spring-2026')).toEqual(buildExamVersions(questions, 3, 'spring-2026'));
+    });
+
+    it('shuffles differently for another seed and for each version', () => {
+        const [a, b] = buildExamVersions(questions, 2, 'spring-2026');
+        const [other] = buildExamVersions(questions, 1, 'autumn-2026');
+        expect(order(a.questions)).not.toEqual(order(b.questions));
+        expect(order(a.questions)).not.toEqual(order(other.questions));
+        expect(a.seed).toBe('spring-2026:A');
+        expect(b.seed).toBe('spring-2026:B');
+    });
+
+    it('keeps labels in sequence and maps each back to the original choice', () => {
+        const [version] = buildExamVersions(questions, 1, 'seed');
+        for (const question of version.questions) {
+            const choices = choicesOf(question);
+            expect(choices.map((choice) => choice.label)).toEqual(['A', 'B', 'C', 'D']);
+            const mappings = version.choiceMappings.filter((mapping) => mapping.questionId === question.question_id);
+            const original = choicesOf(questions.find((q) => q.question_id === question.question_id)!);
+            choices.forEach((choice, index) => {
+                const originalIndex = 'ABCD'.indexOf(mappings[index].originalLabel);
+                expect(original[originalIndex].value).toBe(choice.value);
+                expect(mappings[index].isCorrect).toBe(!!choice.is_correct);
+            });
+        }
+    });
+
+    it('produces the same stream for the same seed', () => {
+        const first = createSeededRandom('x');
+        const second = createSeededRandom('x');
+        expect([first(), first(), first()]).toEqual([second(), second(), second()]);
+    });
+
+    it('names versions A to Z, then AA', () => {
+        expect([0, 25, 26, 27].map(getVersionName)).toEqual(['A', 'Z', 'AA', 'AB']);
+    });
+});
@@ -0,0 +1,149 @@
+import { isKnownPart, type Choice, type ChoicePart, type QuestionJSON, type QuestionPart } from './questionTypes';
+import { escapeCsvCell } from './exportPipeline';
+import { getLocale, labelAt, type ExportLocale } from './locales';
+
+const SHUFFLED_CHOICE_TYPES = new Set(['mcq', 'mrq']);
+
+function hasShuffledChoices(part: QuestionPart): part is ChoicePart {
+  return SHUFFLED_CHOICE_TYPES.has(part.type) && isKnownPart(part);
+}
+
+export interface ChoiceMapping {
+  questionId: string;
+  partNumber: number;
+  // Label printed on this version's paper
+  label: string;
+  // Label the same choice has in the question JSON
+  originalLabel: string;
+  isCorrect: boolean;
+}
+
+export interface ExamVersion {
+  // 'A', 'B', 'C', …
+  name: string;
+  // Seed this version's shuffle was derived from; reusing it reproduces the version
+  seed: string;
+  questions: QuestionJSON[];
+  choiceMappings: ChoiceMapping[];
+}
+
+// ─── Seeded randomness ────────────────────────────
+
+// cyrb53-style string hash, folded to 32 bits for mulberry32
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffleWithRandom<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function createRandomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function getVersionName(index: number): string {
+  let name = '';
+  let n = index;
+  do {
+    name = String.fromCharCode(65 + (n % 26)) + name;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return name;
+}
+
+// ─── Version building ─────────────────────────────
+
+// Choices are shuffled but labels stay in their original sequence (أ/ب/ج or A/B/C),
+// so the printed paper always reads in order. Choices stored without a label get the
+// one the question's locale prints at their position.
+function shuffleChoices(choices: Choice[], random: () => number, locale: ExportLocale): { choices: Choice[]; originalLabels: string[] } {
+  const labelled = choices.map((choice, index) => ({ ...choice, label: labelAt(choice.label, index, locale) }));
+  const labels = labelled.map((choice) => choice.label);
+  const shuffled = shuffleWithRandom(labelled, random);
+  return {
+    choices: shuffled.map((choice, index) => ({ ...choice, label: labels[index] })),
+    originalLabels: shuffled.map((choice) => choice.label),
+  };
+}
+
+export function buildExamVersion(questions: QuestionJSON[], index: number, baseSeed: string): ExamVersion {
+  const name = getVersionName(index);
+  const seed = `${baseSeed}:${name}`;
+  const random = createSeededRandom(seed);
+  const choiceMappings: ChoiceMapping[] = [];
+
+  const ordered = shuffleWithRandom(questions, random);
+  const shuffledQuestions = ordered.map((question) => {
+    const locale = getLocale(question.language_code);
+    return {
+      ...question,
+      content: {
+        ...question.content,
+        parts: question.content.parts.map((part) => {
+          if (!hasShuffledChoices(part) || !part.choices.length) {
+            return part;
+          }
+
+          const { choices, originalLabels } = shuffleChoices(part.choices, random, locale);
+          choices.forEach((choice, choiceIndex) => {
+            choiceMappings.push({
+              questionId: question.question_id,
+              partNumber: part.n,
+              label: choice.label,
+              originalLabel: originalLabels[choiceIndex],
+              isCorrect: !!choice.is_correct,
+            });
+          });
+          return { ...part, choices };
+        }),
+      },
+    };
+  });
+
+  return { name, seed, questions: shuffledQuestions, choiceMappings };
+}
+
+export function buildExamVersions(questions: QuestionJSON[], count: number, baseSeed: string): ExamVersion[] {
+  return Array.from({ length: Math.max(1, count) }, (_, index) => buildExamVersion(questions, index, baseSeed));
+}
+
+export function choiceMappingsToCSV(version: ExamVersion): string {
+  const positions = new Map(version.questions.map((question, index) => [question.question_id, index + 1]));
+  const header = ['version', 'question_number', 'question_id', 'part', 'label', 'original_label', 'is_correct'];
+  const rows = version.choiceMappings.map((mapping) => [
+    version.name,
+    positions.get(mapping.questionId) ?? '',
+    mapping.questionId,
+    mapping.partNumber,
+    mapping.label,
+    mapping.originalLabel,
+    mapping.isCorrect,
+  ]);
+  return [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,246 @@
+import type JSZip from 'jszip';
+import type { QuestionJSON } from './questionTypes';
+import { QuestionSourceError, type QuestionSource } from './questionSource';
+import { validateQuestion, type ValidationIssue } from './questionValidation';
+
+const QUESTION_FETCH_CONCURRENCY = 6;
+const IMAGE_FETCH_CONCURRENCY = 10;
+
+export type ProgressCallback = (loaded: number, total: number, phase: string) => void;
+
+// A question part a target format has no equivalent for; listed in the export result
+export interface UnmappedPart {
+  questionId: string;
+  partNumber: number;
+  type: string;
+  reason: string;
+}
+
+// Result of one question or image download, kept for the export report
+export interface FetchOutcome {
+  ok: boolean;
+  // HTTP status when the source reported one (404 for files missing from a folder/ZIP)
+  httpStatus: number | null;
+  error: string | null;
+}
+
+const FETCH_OK: FetchOutcome = { ok: true, httpStatus: null, error: null };
+
+function describeFetchError(err: unknown): FetchOutcome {
+  return {
+    ok: false,
+    httpStatus: err instanceof QuestionSourceError ? err.status ?? null : null,
+    error: err instanceof Error ? err.message : String(err),
+  };
+}
+
+// ─── Retries and cancellation ─────────────────────
+
+export interface RetryOptions {
+  // Extra attempts after the first failure (0 disables retrying)
+  retries?: number;
+  // Wait before the first retry; doubles with every further attempt up to maxDelayMs
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = { retries: 2, baseDelayMs: 500, maxDelayMs: 8000 };
+
+// Shared by every exporter's options
+export interface FetchOptions {
+  retry?: RetryOptions;
+  // Aborting stops scheduling new downloads and rejects the export with the signal's reason
+  signal?: AbortSignal;
+}
+
+function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+// Missing files and bad JSON will not fix themselves; timeouts, throttling, 5xx and
+// network errors (which surface as TypeError from fetch) might.
+function isRetryable(err: unknown): boolean {
+  if (isAbortError(err)) return false;
+  if (err instanceof QuestionSourceError) {
+    return err.status !== undefined && (err.status >= 500 || err.status === 408 || err.status === 429);
+  }
+  return true;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(task: () => Promise<T>, options: FetchOptions = {}): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  for (let attempt = 0; ; attempt += 1) {
+    options.signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= retries || options.signal?.aborted || !isRetryable(err)) throw err;
+      // Half fixed, half random so parallel workers do not retry in lockstep
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await delay(backoff / 2 + Math.random() * (backoff / 2), options.signal);
+    }
+  }
+}
+
+export function escapeCsvCell(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const results = new Array<R>(items.length);
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      signal?.throwIfAborted();
+      const currentIndex = nextIndex;
+      nextIndex += 1;
+      results[currentIndex] = await mapper(items[currentIndex], currentIndex);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
+
+export function resolveImagePath(imgPath: string): { questionId: string; filename: string } | null {
+  const normalizedPath = imgPath.replace(/^\/+/, '');
+  const parts = normalizedPath.split('/');
+  if (parts.length < 3 || parts[0] !== 'images') {
+    return null;
+  }
+
+  const questionId = parts[1];
+  const filename = parts.slice(2).join('/');
+  if (!questionId || !filename) {
+    return null;
+  }
+
+  return { questionId, filename };
+}
+
+// ─── Export phases shared by every export format ──
+
+export async function fetchQuestions(
+  questionIds: string[],
+  source: QuestionSource,
+  onProgress?: ProgressCallback,
+  options: FetchOptions = {}
+): Promise<{
+  questions: QuestionJSON[];
+  failedIds: string[];
+  validationIssues: ValidationIssue[];
+  questionOutcomes: Map<string, FetchOutcome>;
+}> {
+  let processedQuestions = 0;
+  const questionResults = await mapWithConcurrency(questionIds, QUESTION_FETCH_CONCURRENCY, async (id) => {
+    try {
+      const raw = await withRetry(() => source.getQuestion(id, options.signal), options);
+      const { question, issues } = validateQuestion(raw, id);
+      const outcome: FetchOutcome = question
+        ? FETCH_OK
+        : { ok: false, httpStatus: null, error: issues[0]?.message ?? 'Invalid question JSON' };
+      return { id, question, issues, outcome };
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      // The outcome carries the reason into the export report
+      return { id, question: null, issues: [] as ValidationIssue[], outcome: describeFetchError(err) };
+    } finally {
+      processedQuestions += 1;
+      onProgress?.(processedQuestions, questionIds.length, 'questions');
+    }
+  }, options.signal);
+
+  const questions: QuestionJSON[] = [];
+  const failedIds: string[] = [];
+  const validationIssues: ValidationIssue[] = [];
+  const questionOutcomes = new Map<string, FetchOutcome>();
+  for (const result of questionResults) {
+    validationIssues.push(...result.issues);
+    questionOutcomes.set(result.id, result.outcome);
+    if (result.question) {
+      questions.push(result.question);
+    } else {
+      failedIds.push(result.id);
+    }
+  }
+  return { questions, failedIds, validationIssues, questionOutcomes };
+}
+
+// Downloads each images/{questionId}/{file} path through the source; failed paths
+// (unresolvable or not downloadable) are reported instead of thrown.
+export async function fetchImages(
+  imagePaths: string[],
+  source: QuestionSource,
+  onProgress?: ProgressCallback,
+  options: FetchOptions = {}
+): Promise<{ images: Map<string, ArrayBuffer>; failedImagePaths: string[]; imageOutcomes: Map<string, FetchOutcome> }> {
+  const images = new Map<string, ArrayBuffer>();
+  let processedImages = 0;
+  const outcomes = await mapWithConcurrency(imagePaths, IMAGE_FETCH_CONCURRENCY, async (imgPath): Promise<FetchOutcome> => {
+    const imageRef = resolveImagePath(imgPath);
+    try {
+      if (!imageRef) {
+        return { ok: false, httpStatus: null, error: 'Path does not resolve to images/{questionId}/{file}' };
+      }
+      images.set(imgPath, await withRetry(() => source.getAsset(imageRef.questionId, imageRef.filename, options.signal), options));
+      return FETCH_OK;
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      // The outcome carries the reason into the export report
+      return describeFetchError(err);
+    } finally {
+      processedImages += 1;
+      onProgress?.(processedImages, imagePaths.length, 'images');
+    }
+  }, options.signal);
+
+  // Outcomes keep the order the paths were requested in, not completion order
+  const imageOutcomes = new Map(imagePaths.map((imgPath, index) => [imgPath, outcomes[index]]));
+  const failedImagePaths = [...new Set(imagePaths.filter((_, index) => !outcomes[index].ok))];
+  return { images, failedImagePaths, imageOutcomes };
+}
+
+// Adds the downloaded images to the ZIP under the same images/{questionId}/{file} paths
+export async function addImagesToZip(
+  zip: JSZip,
+  imagePaths: string[],
+  source: QuestionSource,
+  onProgress?: ProgressCallback,
+  options: FetchOptions = {}
+): Promise<{ failedImagePaths: string[]; imageOutcomes: Map<string, FetchOutcome> }> {
+  const { images, failedImagePaths, imageOutcomes } = await fetchImages(imagePaths, source, onProgress, options);
+  for (const [imgPath, data] of images) {
+    zip.file(imgPath, data);
+  }
+  return { failedImagePaths, imageOutcomes };
+}
@@ -0,0 +1,91 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { EXPORT_REPORT_CSV, EXPORT_REPORT_JSON, addReportToZip, buildExportReport, exportReportToCSV, getFailedReportIds, type ExportReportInput } from './exportReport';
+import type { FetchOutcome } from './exportPipeline';
+import type { ValidationIssue } from './questionValidation';
+import { makeQuestion } from '../test/fixtures';
+
+const ok: FetchOutcome = { ok: true, httpStatus: 200, error: null };
+
+function reportInput(): ExportReportInput {
+    const issue = (severity: ValidationIssue['severity']): ValidationIssue =>
+        ({ questionId: 'q2', partNumber: 1, severity, code: 'missing-answer', message: 'x' });
+    return {
+        format: 'html',
+        questionIds: ['q1', 'q2', 'q3', 'q4'],
+        questions: [
+            makeQuestion('q1', [{ n: 1, type: 'mcq', stem: '', choices: [] }, { n: 2, type: 'frq', stem: '', acceptable_answers: [] }]),
+            makeQuestion('q2', [{ n: 1, type: 'gap', stem: '', gap_keys: [] }]),
+            makeQuestion('q4', [{ n: 1, type: 'counting', stem: '' }]),
+        ],
+        questionOutcomes: new Map<string, FetchOutcome>([
+            ['q1', ok],
+            ['q2', ok],
+            ['q3', { ok: false, httpStatus: 404, error: 'HTTP 404' }],
+            ['q4', ok],
+        ]),
+        imageOutcomes: new Map<string, FetchOutcome>([
+            ['images/q1/a.png', ok],
+            ['images/q2/b.png', { ok: false, httpStatus: null, error: 'Network error, "offline"' }],
+            ['images/q2/c.png', ok],
+        ]),
+        validationIssues: [issue('error'), issue('warning'), issue('warning')],
+        omittedQuestions: new Map([['q4', 'No part maps to a QTI interaction']]),
+    };
+}
+
+describe('buildExportReport', () => {
+    it('gives every requested ID a status, its images and its validation counts', () => {
+        const report = buildExportReport(reportInput());
+        expect(report).toMatchObject({ format: 'html', requestedCount: 4, exportedCount: 2, failedCount: 2 });
+        expect(report.questions).toEqual([
+            {
+                questionId: 'q1', status: 'exported', httpStatus: 200, error: null, partTypes: ['mcq', 'frq'],
+                imageCount: 1, images: [{ path: 'images/q1/a.png', ...ok }], validationErrors: 0, validationWarnings: 0,
+            },
+            {
+                questionId: 'q2', status: 'missing-images', httpStatus: 200, error: null, partTypes: ['gap'], imageCount: 2,
+                images: [
+                    { path: 'images/q2/b.png', ok: false, httpStatus: null, error: 'Network error, "offline"' },
+                    { path: 'images/q2/c.png', ...ok },
+                ],
+                validationErrors: 1, validationWarnings: 2,
+            },
+            {
+                questionId: 'q3', status: 'failed', httpStatus: 404, error: 'HTTP 404', partTypes: [],
+                imageCount: 0, images: [], validationErrors: 0, validationWarnings: 0,
+            },
+            {
+                questionId: 'q4', status: 'failed', httpStatus: 200, error: 'No part maps to a QTI interaction', partTypes: ['counting'],
+                imageCount: 0, images: [], validationErrors: 0, validationWarnings: 0,
+            },
+        ]);
+        expect(getFailedReportIds(report)).toEqual(['q2', 'q3', 'q4']);
+    });
+
+    it('reports IDs that were never downloaded', () => {
+        const report = buildExportReport({ ...reportInput(), questionIds: ['q5'], questionOutcomes: new Map() });
+        expect(report.questions[0]).toMatchObject({ questionId: 'q5', status: 'failed', httpStatus: null, error: 'Not downloaded' });
+    });
+});
+
+describe('exportReportToCSV', () => {
+    it('writes one row per requested ID with quoted cells where needed', () => {
+        const lines = exportReportToCSV(buildExportReport(reportInput())).trimEnd().split('\n');
+        expect(lines).toEqual([
+            'question_id,status,http_status,error,part_types,image_count,failed_images,validation_errors,validation_warnings,images',
+            'q1,exported,200,,mcq frq,1,0,0,0,images/q1/a.png: ok',
+            'q2,missing-images,200,,gap,2,1,1,2,"images/q2/b.png: Network error, ""offline"" | images/q2/c.png: ok"',
+            'q3,failed,404,HTTP 404,,0,0,0,0,',
+            'q4,failed,200,No part maps to a QTI interaction,counting,0,0,0,0,',
+        ]);
+    });
+
+    it('is written into the ZIP next to the JSON report', async () => {
+        const report = buildExportReport(reportInput());
+        const zip = new JSZip();
+        addReportToZip(zip, report);
+        expect(JSON.parse(await zip.file(EXPORT_REPORT_JSON)!.async('string'))).toEqual(report);
+        expect(await zip.file(EXPORT_REPORT_CSV)!.async('string')).toBe(exportReportToCSV(report));
+    });
+});
@@ -0,0 +1,142 @@
+import type JSZip from 'jszip';
+import type { QuestionJSON } from './questionTypes';
+import type { ValidationIssue } from './questionValidation';
+import { escapeCsvCell, resolveImagePath, type FetchOutcome } from './exportPipeline';
+
+// Per-ID account of an export: what was requested, what came back and why not.
+// Written into every export ZIP and shown by the app's report dialog.
+
+export const EXPORT_REPORT_JSON = 'export-report.json';
+export const EXPORT_REPORT_CSV = 'export-report.csv';
+
+export type QuestionReportStatus = 'exported' | 'missing-images' | 'failed';
+
+export interface ImageReportEntry {
+  path: string;
+  ok: boolean;
+  httpStatus: number | null;
+  error: string | null;
+}
+
+export interface QuestionReportEntry {
+  questionId: string;
+  status: QuestionReportStatus;
+  httpStatus: number | null;
+  error: string | null;
+  partTypes: string[];
+  imageCount: number;
+  images: ImageReportEntry[];
+  validationErrors: number;
+  validationWarnings: number;
+}
+
+export interface ExportReport {
+  format: string;
+  generatedAt: string;
+  requestedCount: number;
+  exportedCount: number;
+  failedCount: number;
+  questions: QuestionReportEntry[];
+}
+
+export interface ExportReportInput {
+  format: string;
+  questionIds: string[];
+  questions: QuestionJSON[];
+  questionOutcomes: Map<string, FetchOutcome>;
+  imageOutcomes: Map<string, FetchOutcome>;
+  validationIssues: ValidationIssue[];
+  // Downloaded but left out of the export, with the reason; reported as failed
+  omittedQuestions?: Map<string, string>;
+}
+
+export function buildExportReport(input: ExportReportInput): ExportReport {
+  const questionsById = new Map(input.questions.map((question) => [question.question_id, question]));
+
+  const imagesByQuestion = new Map<string, ImageReportEntry[]>();
+  for (const [path, outcome] of input.imageOutcomes) {
+    const questionId = resolveImagePath(path)?.questionId ?? '';
+    const list = imagesByQuestion.get(questionId) ?? [];
+    list.push({ path, ...outcome });
+    imagesByQuestion.set(questionId, list);
+  }
+
+  const entries = input.questionIds.map((questionId): QuestionReportEntry => {
+    const outcome = input.questionOutcomes.get(questionId);
+    const question = questionsById.get(questionId);
+    const images = imagesByQuestion.get(questionId) ?? [];
+    const issues = input.validationIssues.filter((issue) => issue.questionId === questionId);
+    const validationErrors = issues.filter((issue) => issue.severity === 'error').length;
+    const omitted = input.omittedQuestions?.get(questionId) ?? null;
+
+    let status: QuestionReportStatus = 'exported';
+    if (!question || omitted !== null) status = 'failed';
+    else if (images.some((image) => !image.ok)) status = 'missing-images';
+
+    return {
+      questionId,
+      status,
+      httpStatus: outcome?.httpStatus ?? null,
+      error: outcome?.error ?? omitted ?? (question ? null : 'Not downloaded'),
+      partTypes: question ? question.content.parts.map((part) => part.type) : [],
+      imageCount: images.length,
+      images,
+      validationErrors,
+      validationWarnings: issues.length - validationErrors,
+    };
+  });
+
+  const failedCount = entries.filter((entry) => entry.status === 'failed').length;
+  return {
+    format: input.format,
+    generatedAt: new Date().toISOString(),
+    requestedCount: input.questionIds.length,
+    exportedCount: entries.length - failedCount,
+    failedCount,
+    questions: entries,
+  };
+}
+
+function describeImage(image: ImageReportEntry): string {
+  if (image.ok) return `${image.path}: ok`;
+  return `${image.path}: ${image.httpStatus !== null ? `HTTP ${image.httpStatus}` : image.error ?? 'failed'}`;
+}
+
+// One row per requested ID; the images column lists every image with its outcome
+export function exportReportToCSV(report: ExportReport): string {
+  const header = [
+    'question_id',
+    'status',
+    'http_status',
+    'error',
+    'part_types',
+    'image_count',
+    'failed_images',
+    'validation_errors',
+    'validation_warnings',
+    'images',
+  ];
+  const rows = report.questions.map((entry) => [
+    entry.questionId,
+    entry.status,
+    entry.httpStatus,
+    entry.error,
+    entry.partTypes.join(' '),
+    entry.imageCount,
+    entry.images.filter((image) => !image.ok).length,
+    entry.validationErrors,
+    entry.validationWarnings,
+    entry.images.map(describeImage).join(' | '),
+  ]);
+  return [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\n') + '\n';
+}
+
+export function addReportToZip(zip: JSZip, report: ExportReport): void {
+  zip.file(EXPORT_REPORT_JSON, JSON.stringify(report, null, 2) + '\n');
+  zip.file(EXPORT_REPORT_CSV, exportReportToCSV(report));
+}
+
+// IDs worth exporting again: questions that failed outright or lost images
+export function getFailedReportIds(report: ExportReport): string[] {
+  return report.questions.filter((entry) => entry.status !== 'exported').map((entry) => entry.questionId);
+}
@@ -1,128 +1,108 @@
 import JSZip from 'jszip';
+import {
+  isKnownPart,
+  type Choice,
+  type ChoicePart,
+  type CountingPart,
+  type GapPart,
+  type GmrqPart,
+  type InputPart,
+  type KnownPartType,
+  type KnownQuestionPart,
+  type MatchingPair,
+  type MatchingPart,
+  type OrderingPart,
+  type PuzzlePart,
+  type PuzzlePiece,
+  type QuestionJSON,
+  type QuestionPart,
+  type TextPart,
+  type UnknownPart,
+} from './questionTypes';
+import { createHttpSource, type QuestionSource } from './questionSource';
+import { addImagesToZip, fetchImages, fetchQuestions, type FetchOptions, type ProgressCallback } from './exportPipeline';
+import { addLexicalClass, fillGapBlanks, htmlToText, rewriteAssetReferences, transformHtml } from './htmlTransform';
+import {
+  KATEX_STYLESHEET_URL,
+  embedKatexStylesheet,
+  renderMathFieldElements,
+  uniqueMathErrors,
+  type MathOutput,
+  type MathRenderError,
+} from './mathMarkup';
+import { createInlineContext, inlineImages, inlineRemoteAssets } from './offlineInliner';
+import { addQuizRuntime } from './quizRuntime';
+import type { ValidationIssue } from './questionValidation';
+import { addReportToZip, buildExportReport, type ExportReport } from './exportReport';
+import { buildExamVersions, choiceMappingsToCSV, createRandomSeed } from './examVersions';
+import type { QuestionRow } from './csvParser';
+import { sanitizeHtml, uniqueRemovals, type SanitizerRemoval } from './htmlSanitizer';
+import { DEFAULT_LOCALE, choiceLabel, commonLocale, formatNumber, formatPoints, getLocale, labelAt, type ExportLocale } from './locales';
 
-const BASE_URL = '/api/questions';
-const S3_BASE = '/api/questions';
-const QUESTION_FETCH_CONCURRENCY = 6;
-const IMAGE_FETCH_CONCURRENCY = 10;
-
-// Arabic label → HTML entity mapping
-const LABEL_ENTITY_MAP: Record<string, string> = {
-  'أ': '&#x623;',
-  'ب': '&#x628;',
-  'ج': '&#x62C;',
-  'د': '&#x62F;',
-  'هـ': '&#x647;',
-  'ه': '&#x647;',
-  'و': '&#x648;',
-  'A': 'A',
-  'B': 'B',
-  'C': 'C',
-  'D': 'D',
-  'E': 'E',
-  'F': 'F',
-};
-
-// ─── Types ────────────────────────────────────────
-interface Choice {
-  label: string;
-  value: string;
-  is_correct?: boolean;
-}
-interface GapKey {
-  value: string;
-  display_order: number;
-  correct_order: number;
-}
-interface OrderingItem {
-  value: string;
-  display_order: number;
-}
-interface MatchingItems {
-  A: { value: string; label: string; matches?: string }[];
-  B: { value: string; label: string; matches?: string }[];
-}
-interface GmrqItems {
-  A: Choice[];
-  B: Choice[];
-}
-interface PuzzlePiece {
-  display_order: number;
-  correct_order: number;
-  src: string;
-  alt: string;
-}
-
-interface QuestionPart {
-  n: number;
-  type: string;
-  stem: string;
-  // MCQ / MRQ / Opinion
-  choices?: Choice[];
-  correct_answer?: unknown;
-  acceptable_answers?: string[];
-  // Gap
-  gap_keys?: GapKey[];
-  // Ordering
-  direction?: string;
-  items?: unknown;
-  // Matching / GMRQ
-  // items is reused (MatchingItems | GmrqItems)
-  // Counting
-  grid?: { rows: number; columns: number };
-  // Puzzle
-  rows?: string;
-  columns?: string;
-  pieces?: PuzzlePiece[];
-  // Input
-  ai_template_id?: string;
-}
-
-interface QuestionJSON {
-  question_id: string;
-  language_code: string;
-  number_of_parts: number;
-  content: {
-    parts: QuestionPart[];
-  };
+// ─── Helper Functions ─────────────────────────────
+
+// Non-ASCII labels (أ, א, Б…) are written as character references
+function getLabelEntity(label: string): string {
+  return [...label]
+    .map((char) => (char.charCodeAt(0) < 128 ? escapeHtml(char) : `&#x${(char.codePointAt(0) as number).toString(16).toUpperCase()};`))
+    .join('');
 }
 
-// ─── Helper Functions ─────────────────────────────
+// Paragraphs inside the value get the Lexical class and direction in generateQuestionHTML
+function wrapChoiceValue(valueHtml: string, dir: string): string {
+  const rawValue = String(valueHtml ?? '').trim();
+  const normalizedValue = /<\s*p\b/i.test(rawValue)
+    ? rawValue
+    : `<p class="LexicalTheme__paragraph" dir="${dir}">${rawValue}</p>`;
 
-function addLexicalClass(html: string, dir: string): string {
-  // Process each <p> tag individually, handling existing attributes
-  return html.replace(/<p(\s[^>]*)?\s*>/g, (fullMatch, attrs) => {
-    const existingAttrs = attrs || '';
-
-    // Check if class already exists
-    let newAttrs = existingAttrs;
-    if (!/class\s*=/.test(existingAttrs)) {
-      newAttrs += ` class="LexicalTheme__paragraph"`;
-    } else if (!/LexicalTheme__paragraph/.test(existingAttrs)) {
-      // Add to existing class
-      newAttrs = newAttrs.replace(/class\s*=\s*"([^"]*)"/, 'class="$1 LexicalTheme__paragraph"');
-    }
+  return `<div class="choice-value" dir="${dir}">${normalizedValue}</div>`;
+}
 
-    // Check if dir already exists
-    if (!/dir\s*=/.test(newAttrs)) {
-      newAttrs += ` dir="${dir}"`;
-    }
+// Inline content for a blank or a connector cell: drops the paragraph Lexical wraps values in
+function unwrapParagraph(valueHtml: string): string {
+  const single = /^\s*<p\b[^>]*>([\s\S]*)<\/p>\s*$/i.exec(valueHtml);
+  return single && !/<p\b/i.test(single[1]) ? single[1] : valueHtml;
+}
 
-    return `<p${newAttrs}>`;
-  });
+function orderingClass(part: OrderingPart): string {
+  return part.direction === 'horizontal' ? ' ordering-horizontal' : '';
 }
 
-function getLabelEntity(label: string): string {
-  return LABEL_ENTITY_MAP[label] || `${label}`;
+// Gap keys in the order their blanks appear in the stem
+function sortedGapValues(part: GapPart): string[] {
+  return [...part.gap_keys].sort((a, b) => a.correct_order - b.correct_order).map((gapKey) => gapKey.value);
 }
 
-function wrapChoiceValue(valueHtml: string, dir: string): string {
-  const rawValue = String(valueHtml ?? '').trim();
-  const valueWithLexicalClass = addLexicalClass(rawValue, dir).trim();
-  const normalizedValue = /<\s*p\b/i.test(valueWithLexicalClass)
-    ? valueWithLexicalClass
-    : `<p class="LexicalTheme__paragraph" dir="${dir}">${valueWithLexicalClass}</p>`;
+function parseCount(value: unknown): number {
+  const count = Math.floor(Number(value));
+  return Number.isFinite(count) && count > 0 ? count : 0;
+}
 
-  return `<div class="choice-value" dir="${dir}">${normalizedValue}</div>`;
+// rows and columns arrive as strings; whichever is missing follows from the piece count
+function puzzleLayout(part: PuzzlePart): { rows: number; columns: number } {
+  const count = part.pieces.length;
+  const rows = parseCount(part.rows);
+  const columns = parseCount(part.columns) || (rows ? Math.ceil(count / rows) : Math.ceil(Math.sqrt(count))) || 1;
+  return { rows: rows || Math.ceil(count / columns) || 1, columns };
+}
+
+function renderPuzzlePiece(piece: PuzzlePiece): string {
+  return `<img src="${escapeHtml(piece.src)}" alt="${escapeHtml(piece.alt || '')}" />`;
+}
+
+// Grids bigger than this are bad data, not something a student is meant to count
+const MAX_GRID_CELLS = 400;
+
+// filled cells are shaded in reading order; the rest stay empty
+function renderCountingGrid(part: CountingPart, filled: number): string {
+  const rows = parseCount(part.grid?.rows);
+  const columns = parseCount(part.grid?.columns);
+  if (!rows || !columns || rows * columns > MAX_GRID_CELLS) return '';
+  const cells = Array.from({ length: rows * columns }, (_, index) =>
+    `<span class="counting-cell${index < filled ? ' counting-cell--filled' : ''}"></span>`
+  ).join('');
+  return `
+            <div class="counting-grid" style="grid-template-columns: repeat(${columns}, 1.6em);">${cells}</div>`;
 }
 
 function renderChoiceItem(label: string, labelClass: string, valueHtml: string, dir: string): string {
@@ -136,19 +116,19 @@ function renderChoiceItem(label: string, labelClass: string, valueHtml: string,
 
 // ─── Renderers per question type ──────────────────
 
-function renderStringAnswer(part: QuestionPart, dir: string): string {
-  const answer = part.acceptable_answers?.[0] || '';
+function renderStringAnswer(part: TextPart, dir: string, locale: ExportLocale): string {
+  const answer = part.acceptable_answers[0] || '';
   return `
         <ul class="mcq_choices">
-${renderChoiceItem('&#x623;', 'answered correct', answer, dir)}
+${renderChoiceItem(getLabelEntity(choiceLabel(locale, 0)), 'answered correct', answer, dir)}
         </ul>
 `;
 }
 
-function renderMCQAnswer(part: QuestionPart, dir: string): string {
-  if (!part.choices?.length) return '';
-  const items = part.choices.map((choice) => {
-    const entity = getLabelEntity(choice.label);
+function renderMCQAnswer(part: ChoicePart, dir: string, locale: ExportLocale): string {
+  if (!part.choices.length) return '';
+  const items = part.choices.map((choice, index) => {
+    const entity = getLabelEntity(labelAt(choice.label, index, locale));
     const cls = choice.is_correct ? 'not_active answered correct' : 'not_active';
     return renderChoiceItem(entity, cls, choice.value, dir);
   }).join('\n');
@@ -159,27 +139,26 @@ ${items}
 `;
 }
 
-function renderMRQAnswer(part: QuestionPart, dir: string): string {
+function renderMRQAnswer(part: ChoicePart, dir: string, locale: ExportLocale): string {
   // MRQ is like MCQ but multiple correct answers
-  return renderMCQAnswer(part, dir);
+  return renderMCQAnswer(part, dir, locale);
 }
 
-function renderFRQAnswer(part: QuestionPart, dir: string): string {
-  const answers = part.acceptable_answers || [];
+function renderFRQAnswer(part: TextPart): string {
+  const answers = part.acceptable_answers;
   if (answers.length === 0) return '';
-  const answerHTML = addLexicalClass(answers[0], dir);
   return `
         <div class="frq-answer">
-                <div class="answered correct">${answerHTML}</div>
+                <div class="answered correct">${answers[0]}</div>
         </div>
 `;
 }
 
-function renderInputAnswer(part: QuestionPart): string {
-  const ca = part.correct_answer as { value: unknown; unit?: string | null } | undefined;
+function renderInputAnswer(part: InputPart): string {
+  const ca = part.correct_answer;
   if (!ca) return '';
-  const val = ca.value !== undefined ? String(ca.value) : '';
-  const unit = ca.unit || '';
+  const val = escapeHtml(String(ca.value));
+  const unit = escapeHtml(ca.unit || '');
   return `
         <div class="input-answer">
                 <span class="answered correct">${val}${unit ? ' ' + unit : ''}</span>
@@ -187,11 +166,10 @@ function renderInputAnswer(part: QuestionPart): string {
 `;
 }
 
-function renderGapAnswer(part: QuestionPart, dir: string): string {
-  if (!part.gap_keys?.length) return '';
-  const sorted = [...part.gap_keys].sort((a, b) => a.correct_order - b.correct_order);
-  const items = sorted.map((gapKey, index) =>
-    renderChoiceItem(String(index + 1), 'answered correct', gapKey.value, dir)
+function renderGapAnswer(part: GapPart, dir: string, locale: ExportLocale): string {
+  if (!part.gap_keys.length) return '';
+  const items = sortedGapValues(part).map((value, index) =>
+    renderChoiceItem(formatNumber(locale, index + 1), 'answered correct', value, dir)
   ).join('\n');
   return `
         <ul class="mcq_choices">
@@ -200,55 +178,78 @@ ${items}
 `;
 }
 
-function renderOrderingAnswer(part: QuestionPart, dir: string): string {
+function renderOrderingAnswer(part: OrderingPart, dir: string, locale: ExportLocale): string {
   const ca = part.correct_answer;
-  if (!Array.isArray(ca)) return '';
-  const items = (ca as string[]).map((value, index) =>
-    renderChoiceItem(String(index + 1), 'answered correct', value, dir)
+  if (!ca.length) return '';
+  const items = ca.map((value, index) =>
+    renderChoiceItem(formatNumber(locale, index + 1), 'answered correct', value, dir)
   ).join('\n');
   return `
-        <ol class="mcq_choices">
+        <ol class="mcq_choices${orderingClass(part)}">
 ${items}
         </ol>
 `;
 }
 
-function renderMatchingAnswer(part: QuestionPart): string {
-  const ca = part.correct_answer;
-  if (!Array.isArray(ca)) return '';
-  const pairs = ca as { A: string; B: string }[];
+// Explicit pairs, else each A item's matches label; in A's order when the items are known
+function resolveMatchingPairs(part: MatchingPart): MatchingPair[] {
+  const items = part.items;
+  if (part.correct_answer) {
+    if (!items) return part.correct_answer;
+    const position = new Map(items.A.map((item, index) => [item.value, index]));
+    return [...part.correct_answer].sort((a, b) => (position.get(a.A) ?? Infinity) - (position.get(b.A) ?? Infinity));
+  }
+  return (items?.A ?? []).flatMap((item) => {
+    const match = items?.B.find((candidate) => candidate.label === item.matches);
+    return match ? [{ A: item.value, B: match.value }] : [];
+  });
+}
+
+function renderMatchingAnswer(part: MatchingPart, dir: string, locale: ExportLocale): string {
+  const pairs = resolveMatchingPairs(part);
+  if (pairs.length === 0) return '';
+  const labelA = new Map(part.items?.A.map((item, index) => [item.value, labelAt(item.label, index, locale)]));
+  const labelB = new Map(part.items?.B.map((item, index) => [item.value, labelAt(item.label, index, locale)]));
+  const label = (value?: string) => (value ? `${getLabelEntity(value)}. ` : '');
   const rows = pairs.map((pair) =>
     `            <tr>
-                <td>${pair.A}</td>
-                <td>↔</td>
-                <td>${pair.B}</td>
+                <td>${label(labelA.get(pair.A))}</td>
+                <td>${wrapChoiceValue(pair.A, dir)}</td>
+                <td class="matching-connector"><span></span></td>
+                <td>${label(labelB.get(pair.B))}</td>
+                <td>${wrapChoiceValue(pair.B, dir)}</td>
             </tr>`
   ).join('\n');
   return `
-        <table class="matching-answer">
+        <table class="matching-answer matching-pairs">
 ${rows}
         </table>
 `;
 }
 
-function renderGMRQAnswer(part: QuestionPart, dir: string): string {
-  const items = part.items as GmrqItems | undefined;
-  if (!items) return '';
+// "Group A:" / "المجموعة أ:"
+function groupHeading(locale: ExportLocale, index: number): string {
+  return `<strong>${escapeHtml(locale.labels.group)} ${getLabelEntity(choiceLabel(locale, index))}:</strong>`;
+}
+
+function renderGMRQAnswer(part: GmrqPart, dir: string, locale: ExportLocale): string {
+  const items = part.items;
+  if (!items.A.length && !items.B.length) return '';
 
   const renderGroup = (group: Choice[]) => {
-    return group.map((choice) => {
+    return group.map((choice, index) => {
       const cls = choice.is_correct ? 'not_active answered correct' : 'not_active';
-      return renderChoiceItem(getLabelEntity(choice.label), cls, choice.value, dir);
+      return renderChoiceItem(getLabelEntity(labelAt(choice.label, index, locale)), cls, choice.value, dir);
     }).join('\n');
   };
 
   return `
         <div class="gmrq-group">
-            <strong>Group A:</strong>
+            ${groupHeading(locale, 0)}
             <ul class="mcq_choices">
 ${renderGroup(items.A)}
             </ul>
-            <strong>Group B:</strong>
+            ${groupHeading(locale, 1)}
             <ul class="mcq_choices">
 ${renderGroup(items.B)}
             </ul>
@@ -256,19 +257,19 @@ ${renderGroup(items.B)}
 `;
 }
 
-function renderCountingAnswer(part: QuestionPart): string {
-  const ca = part.correct_answer;
+function renderCountingAnswer(part: CountingPart): string {
+  const ca = escapeHtml(String(part.correct_answer ?? ''));
   return `
-        <div class="input-answer">
+        <div class="input-answer">${renderCountingGrid(part, parseCount(part.correct_answer))}
                 <span class="answered correct">${ca}</span>
         </div>
 `;
 }
 
-function renderOpinionAnswer(part: QuestionPart, dir: string): string {
-  if (!part.choices?.length) return '';
-  const items = part.choices.map((choice) =>
-    renderChoiceItem(getLabelEntity(choice.label), 'not_active', choice.value, dir)
+function renderOpinionAnswer(part: ChoicePart, dir: string, locale: ExportLocale): string {
+  if (!part.choices.length) return '';
+  const items = part.choices.map((choice, index) =>
+    renderChoiceItem(getLabelEntity(labelAt(choice.label, index, locale)), 'not_active', choice.value, dir)
   ).join('\n');
   return `
     <ul class="mcq_choices">
@@ -277,130 +278,545 @@ ${items}
 `;
 }
 
-function renderPuzzleAnswer(part: QuestionPart): string {
-  const ca = part.correct_answer as { src: string; alt: string } | undefined;
-  if (!ca) return '';
+// The pieces assembled in their correct order, then the finished picture when there is one
+function renderPuzzleAnswer(part: PuzzlePart): string {
+  const ca = part.correct_answer;
+  if (!ca && part.pieces.length === 0) return '';
+  const { columns } = puzzleLayout(part);
+  const pieces = [...part.pieces].sort((a, b) => a.correct_order - b.correct_order).map(renderPuzzlePiece).join('');
+  const grid = pieces
+    ? `
+            <div class="puzzle-grid" style="grid-template-columns: repeat(${columns}, auto);">${pieces}</div>` : '';
+  const picture = ca
+    ? `
+            <img src="${escapeHtml(ca.src)}" alt="${escapeHtml(ca.alt || 'Puzzle answer')}" style="max-width: 300px;" />` : '';
   return `
-        <div class="puzzle-answer">
-            <img src="${ca.src}" alt="${ca.alt || 'Puzzle answer'}" style="max-width: 300px;" />
+        <div class="puzzle-answer">${grid}${picture}
         </div>
 `;
 }
 
-// ─── Main renderer ─────────────────────────────────
-
-function renderAnswers(part: QuestionPart, dir: string): string {
-  switch (part.type) {
-    case 'string': return renderStringAnswer(part, dir);
-    case 'mcq': return renderMCQAnswer(part, dir);
-    case 'mrq': return renderMRQAnswer(part, dir);
-    case 'frq': return renderFRQAnswer(part, dir);
-    case 'input': return renderInputAnswer(part);
-    case 'gap': return renderGapAnswer(part, dir);
-    case 'ordering': return renderOrderingAnswer(part, dir);
-    case 'matching': return renderMatchingAnswer(part);
-    case 'gmrq': return renderGMRQAnswer(part, dir);
-    case 'counting': return renderCountingAnswer(part);
-    case 'opinion': return renderOpinionAnswer(part, dir);
-    case 'puzzle': return renderPuzzleAnswer(part);
-    default: return `<p style="color:#999;">Unsupported type: ${part.type}</p>`;
-  }
+// ─── Student (worksheet) renderers ────────────────
+// Same layout as the answer renderers, but nothing reveals the key.
+
+function renderBlankLine(): string {
+  return `<span class="answer-blank"></span>`;
 }
 
-function rewriteImagePaths(html: string, questionId: string): string {
-  // Rewrite relative img src to images/{questionId}/{filename}
-  return html.replace(/(<img[^>]*\ssrc\s*=\s*")([^"]*\.(?:svg|png|jpg|jpeg|gif|webp))(")/gi, (match, pre, src, post) => {
-    // Skip absolute URLs
-    if (/^https?:\/\//.test(src) || src.startsWith('images/')) return match;
-    return `${pre}images/${questionId}/${src}${post}`;
-  });
+function renderWritingLines(count: number): string {
+  const lines = Array.from({ length: count }, () => '                <div class="answer-line"></div>').join('\n');
+  return `
+        <div class="frq-answer answer-lines">
+${lines}
+        </div>
+`;
+}
+
+function renderNeutralChoices(choices: Choice[], dir: string, locale: ExportLocale): string {
+  const items = choices.map((choice, index) =>
+    renderChoiceItem(getLabelEntity(labelAt(choice.label, index, locale)), 'not_active', choice.value, dir)
+  ).join('\n');
+  return `
+    <ul class="mcq_choices">
+${items}
+    </ul>
+`;
+}
+
+function renderStudentInput(part: InputPart): string {
+  const unit = escapeHtml(part.correct_answer?.unit || '');
+  return `
+        <div class="input-answer">
+                ${renderBlankLine()}${unit ? ' ' + unit : ''}
+        </div>
+`;
+}
+
+function renderStudentGap(part: GapPart, dir: string): string {
+  if (!part.gap_keys.length) return '';
+  const sorted = [...part.gap_keys].sort((a, b) => a.display_order - b.display_order);
+  const items = sorted.map((gapKey) =>
+    renderChoiceItem('&#x25A1;', 'not_active', gapKey.value, dir)
+  ).join('\n');
+  return `
+        <ul class="mcq_choices word-bank">
+${items}
+        </ul>
+`;
+}
+
+function renderStudentOrdering(part: OrderingPart, dir: string): string {
+  const items = part.items;
+  if (items.length === 0) return '';
+  const sorted = [...items].sort((a, b) => a.display_order - b.display_order);
+  const rows = sorted.map((item) =>
+    renderChoiceItem('&#x25A1;', 'not_active ordering-box', item.value, dir)
+  ).join('\n');
+  return `
+        <ul class="mcq_choices${orderingClass(part)}">
+${rows}
+        </ul>
+`;
+}
+
+function renderStudentMatching(part: MatchingPart, dir: string, locale: ExportLocale): string {
+  const items = part.items;
+  if (!items) return '';
+  const rowCount = Math.max(items.A.length, items.B.length);
+  const rows = Array.from({ length: rowCount }, (_, index) => {
+    const a = items.A[index];
+    const b = items.B[index];
+    return `            <tr>
+                <td>${a ? `${getLabelEntity(labelAt(a.label, index, locale))}. ` : ''}</td>
+                <td>${a ? wrapChoiceValue(a.value, dir) : ''}</td>
+                <td>${renderBlankLine()}</td>
+                <td>${b ? `${getLabelEntity(labelAt(b.label, index, locale))}. ` : ''}</td>
+                <td>${b ? wrapChoiceValue(b.value, dir) : ''}</td>
+            </tr>`;
+  }).join('\n');
+  return `
+        <table class="matching-answer">
+${rows}
+        </table>
+`;
+}
+
+function renderStudentGMRQ(part: GmrqPart, dir: string, locale: ExportLocale): string {
+  const items = part.items;
+  if (!items.A.length && !items.B.length) return '';
+  return `
+        <div class="gmrq-group">
+            ${groupHeading(locale, 0)}${renderNeutralChoices(items.A, dir, locale)}
+            ${groupHeading(locale, 1)}${renderNeutralChoices(items.B, dir, locale)}
+        </div>
+`;
+}
+
+// Shuffled pieces above an empty grid of the finished puzzle's shape
+function renderStudentPuzzle(part: PuzzlePart): string {
+  if (!part.pieces.length) return '';
+  const pieces = [...part.pieces]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map((piece) => `            ${renderPuzzlePiece(piece)}`)
+    .join('\n');
+  const { rows, columns } = puzzleLayout(part);
+  const cells = '<span class="puzzle-cell"></span>'.repeat(Math.min(rows * columns, MAX_GRID_CELLS));
+  return `
+        <div class="puzzle-answer puzzle-pieces">
+${pieces}
+        </div>
+        <div class="puzzle-grid puzzle-grid--empty" style="grid-template-columns: repeat(${columns}, 1fr);">${cells}</div>
+`;
+}
+
+function renderStudentChoices(part: ChoicePart, dir: string, locale: ExportLocale): string {
+  return part.choices.length ? renderNeutralChoices(part.choices, dir, locale) : '';
+}
+
+function renderStudentBlank(): string {
+  return `\n        <div class="input-answer">${renderBlankLine()}</div>\n`;
+}
+
+function renderStudentCounting(part: CountingPart): string {
+  return `\n        <div class="input-answer">${renderCountingGrid(part, 0)}\n                ${renderBlankLine()}\n        </div>\n`;
+}
+
+// ─── Plain-text answers ───────────────────────────
+
+function numberedText(values: string[], locale: ExportLocale): string {
+  return values.map((value, index) => `${formatNumber(locale, index + 1)}. ${htmlToText(value)}`).join('\n');
+}
+
+// Correct choices are marked with ✓ where the part has a key
+function choicesText(choices: Choice[], marked: boolean, locale: ExportLocale): string {
+  return choices
+    .map((choice, index) => `${labelAt(choice.label, index, locale)}. ${htmlToText(choice.value)}${marked && choice.is_correct ? ' ✓' : ''}`)
+    .join('\n');
+}
+
+function matchingText(part: MatchingPart, locale: ExportLocale): string {
+  const labelA = new Map(part.items?.A.map((item, index) => [item.value, `${labelAt(item.label, index, locale)}. `]));
+  const labelB = new Map(part.items?.B.map((item, index) => [item.value, `${labelAt(item.label, index, locale)}. `]));
+  return resolveMatchingPairs(part)
+    .map((pair) => `${labelA.get(pair.A) ?? ''}${htmlToText(pair.A)} → ${labelB.get(pair.B) ?? ''}${htmlToText(pair.B)}`)
+    .join('\n');
+}
+
+function puzzleText(part: PuzzlePart): string {
+  const pieces = [...part.pieces].sort((a, b) => a.correct_order - b.correct_order).map((piece) => piece.alt).filter(Boolean);
+  return pieces.length > 0 ? pieces.join(', ') : part.correct_answer?.alt ?? '';
+}
+
+// ─── Renderer registry ────────────────────────────
+// Maps a part type to its markup in both views and its answer as plain text. The
+// built-in types register through registerPartRenderer like any other type; a part
+// whose type has no renderer exports as "Unsupported type".
+
+// locale is the question's: its labels, choice-label sequence and digits
+export interface PartRenderer<P extends QuestionPart = QuestionPart> {
+  // Worksheet markup; nothing in it may reveal the key
+  student(part: P, dir: string, locale: ExportLocale): string;
+  // Answer-sheet markup with the key shown
+  answers(part: P, dir: string, locale: ExportLocale): string;
+  // The answer as plain text, e.g. "A. 12 ✓" or "1. sky\n2. blue"
+  text(part: P, locale: ExportLocale): string;
+}
+
+type PartWithType<P, T> = P extends { type: infer U } ? (T extends U ? P : never) : never;
+
+// The part shape a renderer for type T receives: the built-in interface, or UnknownPart
+export type PartOfType<T extends string> = T extends KnownPartType ? PartWithType<KnownQuestionPart, T> : UnknownPart;
+
+const partRenderers = new Map<string, PartRenderer>();
+
+// Registering a type again replaces its renderer, built-in ones included
+export function registerPartRenderer<T extends string>(type: T, renderer: PartRenderer<PartOfType<T>>): void {
+  partRenderers.set(type, renderer as PartRenderer);
+}
+
+export function hasPartRenderer(type: string): boolean {
+  return partRenderers.has(type);
+}
+
+export function registeredPartTypes(): string[] {
+  return [...partRenderers.keys()];
+}
+
+function renderUnsupported(part: QuestionPart): string {
+  return `<p style="color:#999;">Unsupported type: ${escapeHtml(String(part.type))}</p>`;
+}
+
+function renderAnswers(part: QuestionPart, dir: string, locale: ExportLocale): string {
+  const renderer = partRenderers.get(part.type);
+  return renderer ? renderer.answers(part, dir, locale) : renderUnsupported(part);
+}
+
+function renderStudentAnswers(part: QuestionPart, dir: string, locale: ExportLocale): string {
+  const renderer = partRenderers.get(part.type);
+  return renderer ? renderer.student(part, dir, locale) : renderUnsupported(part);
+}
+
+// '' for types without a renderer
+export function partAnswerText(part: QuestionPart, locale: ExportLocale): string {
+  return partRenderers.get(part.type)?.text(part, locale) ?? '';
+}
+
+registerPartRenderer('mcq', {
+  student: renderStudentChoices,
+  answers: renderMCQAnswer,
+  text: (part, locale) => choicesText(part.choices, true, locale),
+});
+registerPartRenderer('mrq', {
+  student: renderStudentChoices,
+  answers: renderMRQAnswer,
+  text: (part, locale) => choicesText(part.choices, true, locale),
+});
+registerPartRenderer('opinion', {
+  student: renderStudentChoices,
+  answers: renderOpinionAnswer,
+  text: (part, locale) => choicesText(part.choices, false, locale),
+});
+registerPartRenderer('string', {
+  student: renderStudentBlank,
+  answers: renderStringAnswer,
+  text: (part) => part.acceptable_answers.map(htmlToText).join('\n'),
+});
+registerPartRenderer('frq', {
+  student: () => renderWritingLines(4),
+  answers: renderFRQAnswer,
+  text: (part) => part.acceptable_answers.map(htmlToText).join('\n'),
+});
+registerPartRenderer('input', {
+  student: renderStudentInput,
+  answers: renderInputAnswer,
+  text: (part) => (part.correct_answer ? `${part.correct_answer.value}${part.correct_answer.unit ? ` ${part.correct_answer.unit}` : ''}` : ''),
+});
+registerPartRenderer('gap', {
+  student: renderStudentGap,
+  answers: renderGapAnswer,
+  text: (part, locale) => numberedText(sortedGapValues(part), locale),
+});
+registerPartRenderer('ordering', {
+  student: renderStudentOrdering,
+  answers: renderOrderingAnswer,
+  text: (part, locale) => numberedText(part.correct_answer, locale),
+});
+registerPartRenderer('matching', {
+  student: renderStudentMatching,
+  answers: renderMatchingAnswer,
+  text: matchingText,
+});
+registerPartRenderer('gmrq', {
+  student: renderStudentGMRQ,
+  answers: renderGMRQAnswer,
+  text: (part, locale) => [part.items.A, part.items.B]
+    .map((group, index) => `${locale.labels.group} ${choiceLabel(locale, index)}:\n${choicesText(group, true, locale)}`)
+    .join('\n'),
+});
+registerPartRenderer('counting', {
+  student: renderStudentCounting,
+  answers: renderCountingAnswer,
+  text: (part, locale) => formatNumber(locale, part.correct_answer ?? ''),
+});
+registerPartRenderer('puzzle', {
+  student: renderStudentPuzzle,
+  answers: renderPuzzleAnswer,
+  text: puzzleText,
+});
+
+// ─── Quiz renderers ───────────────────────────────
+// Form controls for the interactive quiz. The wrapper markup is ours, so only the
+// question's own values go through the sanitizer (clean); it would strip the controls.
+
+// What the quiz script grades a part against; indices refer to the rendered order.
+// Stored on the part as data-quiz-key, so grading needs no server or extra file.
+export type QuizKey =
+  | { kind: 'choice'; correct: number[] }
+  | { kind: 'text'; answers: string[]; numeric: boolean }
+  | { kind: 'order'; correct: number[] }
+  | { kind: 'match'; correct: number[] };
+
+interface QuizPart {
+  kind: QuizKey['kind'] | 'none';
+  html: string;
+  // null when the part is answered but not scored (opinion, no usable key)
+  key: QuizKey | null;
 }
 
-function collectImagePaths(html: string): string[] {
-  const imgs: string[] = [];
-  const regex = /src\s*=\s*"([^"]*\.(?:svg|png|jpg|jpeg|gif|webp))"/gi;
-  let m: RegExpExecArray | null;
-  while ((m = regex.exec(html)) !== null) {
-    if (!/^https?:\/\//.test(m[1])) {
-      imgs.push(m[1]);
+function renderQuizChoices(part: ChoicePart, dir: string, locale: ExportLocale, name: string, clean: (html: string) => string): QuizPart {
+  const inputType = part.type === 'mrq' ? 'checkbox' : 'radio';
+  const items = part.choices.map((choice, index) => {
+    const label = labelAt(choice.label, index, locale);
+    return `                <li class="">
+                    <label class="quiz-choice">
+                        <input type="${inputType}" name="${name}" value="${index}" data-quiz-label="${escapeHtml(label)}" />
+                        <span class="not_active">${getLabelEntity(label)}</span>
+                        ${wrapChoiceValue(clean(choice.value), dir)}
+                    </label>
+                </li>`;
+  }).join('\n');
+  const correct = part.choices.flatMap((choice, index) => (choice.is_correct ? [index] : []));
+  return {
+    kind: 'choice',
+    html: `
+    <ul class="mcq_choices quiz-choices">
+${items}
+    </ul>
+`,
+    key: part.type !== 'opinion' && correct.length > 0 ? { kind: 'choice', correct } : null,
+  };
+}
+
+function renderQuizText(part: TextPart | InputPart): QuizPart {
+  let key: QuizKey | null = null;
+  let unit = '';
+  if (part.type === 'input') {
+    if (part.correct_answer) {
+      const value = String(part.correct_answer.value).trim();
+      key = { kind: 'text', answers: [value], numeric: value !== '' && Number.isFinite(Number(value)) };
+      unit = escapeHtml(part.correct_answer.unit || '');
     }
+  } else {
+    // Compared as text, case-insensitively, as the QTI export maps them
+    const answers = part.acceptable_answers.map(htmlToText).filter(Boolean);
+    if (answers.length > 0) key = { kind: 'text', answers, numeric: false };
   }
-  return imgs;
+  return {
+    kind: 'text',
+    html: `
+        <div class="input-answer">
+                <input type="text" class="quiz-text" autocomplete="off" spellcheck="false" />${unit ? ' ' + unit : ''}
+        </div>
+`,
+    key,
+  };
 }
 
-async function mapWithConcurrency<T, R>(
-  items: T[],
-  limit: number,
-  mapper: (item: T, index: number) => Promise<R>
-): Promise<R[]> {
-  if (items.length === 0) {
-    return [];
+// Horizontal lists move items towards the reading direction's start or end
+function quizMoveButtons(part: OrderingPart, dir: string): [earlier: string, later: string] {
+  if (part.direction !== 'horizontal') {
+    return ['aria-label="Move up">&#x25B2;', 'aria-label="Move down">&#x25BC;'];
   }
+  const [start, end] = dir === 'rtl' ? ['&#x25B6;', '&#x25C0;'] : ['&#x25C0;', '&#x25B6;'];
+  return [`aria-label="Move earlier">${start}`, `aria-label="Move later">${end}`];
+}
 
-  const results = new Array<R>(items.length);
-  const workerCount = Math.max(1, Math.min(limit, items.length));
-  let nextIndex = 0;
-
-  const worker = async () => {
-    while (nextIndex < items.length) {
-      const currentIndex = nextIndex;
-      nextIndex += 1;
-      results[currentIndex] = await mapper(items[currentIndex], currentIndex);
-    }
+function renderQuizOrdering(part: OrderingPart, dir: string, clean: (html: string) => string): QuizPart {
+  const sorted = [...part.items].sort((a, b) => a.display_order - b.display_order);
+  const positionByValue = new Map(sorted.map((item, index) => [item.value, index]));
+  const correct = part.correct_answer.map((value) => positionByValue.get(value) ?? -1);
+  const [earlier, later] = quizMoveButtons(part, dir);
+  const items = sorted.map((item, index) => `                <li class="quiz-order-item" data-quiz-item="${index}">
+                    <span class="quiz-order-buttons">
+                        <button type="button" class="quiz-move" data-quiz-move="-1" ${earlier}</button>
+                        <button type="button" class="quiz-move" data-quiz-move="1" ${later}</button>
+                    </span>
+                    ${wrapChoiceValue(clean(item.value), dir)}
+                </li>`).join('\n');
+  const valid = correct.length === sorted.length && sorted.length > 0 && !correct.includes(-1);
+  return {
+    kind: 'order',
+    html: `
+        <ol class="mcq_choices quiz-order${orderingClass(part)}">
+${items}
+        </ol>
+`,
+    key: valid ? { kind: 'order', correct } : null,
   };
+}
 
-  await Promise.all(Array.from({ length: workerCount }, () => worker()));
-  return results;
+function renderQuizMatching(part: MatchingPart, dir: string, locale: ExportLocale, clean: (html: string) => string): QuizPart {
+  const items = part.items;
+  if (!items) return { kind: 'none', html: '', key: null };
+  const indexB = new Map(items.B.map((item, index) => [item.value, index]));
+  const pairs = resolveMatchingPairs(part);
+  const correct = items.A.map((item) => {
+    const pair = pairs.find((candidate) => candidate.A === item.value);
+    return (pair && indexB.get(pair.B)) ?? -1;
+  });
+  const options = items.B.map((item, index) =>
+    `<option value="${index}">${getLabelEntity(labelAt(item.label, index, locale))}</option>`
+  ).join('');
+  const rowCount = Math.max(items.A.length, items.B.length);
+  const rows = Array.from({ length: rowCount }, (_, index) => {
+    const a = items.A[index];
+    const b = items.B[index];
+    return `            <tr>
+                <td>${a ? `${getLabelEntity(labelAt(a.label, index, locale))}. ` : ''}</td>
+                <td>${a ? wrapChoiceValue(clean(a.value), dir) : ''}</td>
+                <td>${a ? `<select class="quiz-match" aria-label="Match for ${escapeHtml(labelAt(a.label, index, locale))}"><option value="">&#x2014;</option>${options}</select>` : ''}</td>
+                <td>${b ? `${getLabelEntity(labelAt(b.label, index, locale))}. ` : ''}</td>
+                <td>${b ? wrapChoiceValue(clean(b.value), dir) : ''}</td>
+            </tr>`;
+  }).join('\n');
+  return {
+    kind: 'match',
+    html: `
+        <table class="matching-answer quiz-matching">
+${rows}
+        </table>
+`,
+    key: correct.length > 0 && !correct.includes(-1) ? { kind: 'match', correct } : null,
+  };
 }
 
-function resolveImageUrl(imgPath: string): string | null {
-  const normalizedPath = imgPath.replace(/^\/+/, '');
-  const parts = normalizedPath.split('/');
-  if (parts.length < 3 || parts[0] !== 'images') {
-    return null;
+// Types the quiz cannot take answers for keep their worksheet layout and are not scored
+function renderQuizAnswers(part: QuestionPart, dir: string, locale: ExportLocale, name: string, clean: (html: string) => string): QuizPart {
+  if (isKnownPart(part)) {
+    switch (part.type) {
+      case 'mcq':
+      case 'mrq':
+      case 'opinion': return renderQuizChoices(part, dir, locale, name, clean);
+      case 'string':
+      case 'input': return renderQuizText(part);
+      case 'ordering': return renderQuizOrdering(part, dir, clean);
+      case 'matching': return renderQuizMatching(part, dir, locale, clean);
+    }
   }
+  return { kind: 'none', html: clean(renderStudentAnswers(part, dir, locale)), key: null };
+}
 
-  const questionId = parts[1];
-  const filename = parts.slice(2).join('/');
-  if (!questionId || !filename) {
-    return null;
-  }
+export type QuestionView = 'answers' | 'student' | 'quiz';
+
+export interface QuestionHTMLOptions {
+  view?: QuestionView;
+  // 1-based position shared by the worksheet and its answer key
+  number?: number;
+  // CSV row the question came from: label, points and notes are printed, other columns become data-* attributes
+  row?: QuestionRow;
+  // Collects what the sanitizer stripped from the question's HTML
+  removals?: SanitizerRemoval[];
+  // Collects the images/{questionId}/… paths the markup refers to
+  assets?: Set<string>;
+  // How <math-field> LaTeX is pre-rendered (default 'html')
+  mathOutput?: MathOutput;
+  // Collects LaTeX that KaTeX could not parse
+  mathErrors?: MathRenderError[];
+}
 
-  return `${S3_BASE}/${questionId}/${filename}`;
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 }
 
-function generateQuestionHTML(question: QuestionJSON): string {
-  const dir = question.language_code === 'ar' ? 'rtl' : 'ltr';
+// Unknown CSV columns, exposed to stylesheets and scripts as data-* attributes on the question
+function renderDataAttributes(extra: Record<string, string>): string {
+  return Object.entries(extra)
+    .map(([key, value]) => [key.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, ''), value])
+    .filter(([name]) => name && name !== 'questionid')
+    .map(([name, value]) => ` data-${name}="${escapeHtml(value)}"`)
+    .join('');
+}
+
+export function generateQuestionHTML(question: QuestionJSON, options: QuestionHTMLOptions = {}): string {
+  const view = options.view ?? 'answers';
+  const locale = getLocale(question.language_code);
+  const labels = locale.labels;
+  const dir = locale.dir;
   const dirClass = `dir-${dir}`;
-  const qId = question.question_id;
+  const qId = escapeHtml(String(question.question_id));
   const isMultiPart = question.number_of_parts > 1;
   const wrapperClass = isMultiPart ? 'multi-parts-question' : 'one-part-question';
 
   const partsHTML = question.content.parts.map((part) => {
-    const stemHTML = rewriteImagePaths(addLexicalClass(part.stem, dir), qId);
-    const answersHTML = rewriteImagePaths(renderAnswers(part, dir), qId);
+    const partNumber = escapeHtml(String(part.n));
+    const onRemove = (kind: SanitizerRemoval['kind'], detail: string) => {
+      options.removals?.push({ questionId: question.question_id, partNumber: part.n, kind, detail });
+    };
+    const finish = (body: HTMLElement) => {
+      addLexicalClass(body, dir);
+      rewriteAssetReferences(body, question.question_id, options.assets);
+      renderMathFieldElements(body, options.mathOutput, (latex, message) => {
+        options.mathErrors?.push({ questionId: question.question_id, partNumber: part.n, latex, message });
+      });
+    };
+    const clean = (html: string) => sanitizeHtml(html, onRemove);
+    const quiz = view === 'quiz' ? renderQuizAnswers(part, dir, locale, `quiz-${qId}-${partNumber}`, clean) : null;
+    // Stems and every value inside the answers are question data, so both are sanitized
+    const stemHTML = transformHtml(clean(part.stem), (body) => {
+      if (view === 'answers' && isKnownPart(part) && part.type === 'gap') {
+        fillGapBlanks(body, sortedGapValues(part).map((value) => unwrapParagraph(clean(value))));
+      }
+      finish(body);
+    });
+    const answersHTML = transformHtml(
+      quiz ? quiz.html : clean(view === 'student' ? renderStudentAnswers(part, dir, locale) : renderAnswers(part, dir, locale)),
+      finish
+    );
+    const quizAttributes = quiz
+      ? ` data-quiz-part="${partNumber}" data-quiz-kind="${quiz.kind}"${quiz.key ? ` data-quiz-key="${escapeHtml(JSON.stringify(quiz.key))}"` : ''}`
+      : '';
     const partLabel = isMultiPart
-      ? `\n                    <div class="part-number"><p>Part ${part.n}</p></div>` : '';
+      ? `\n                    <div class="part-number"><p>${escapeHtml(labels.part)} ${formatNumber(locale, partNumber)}</p></div>` : '';
 
     return `                    ${partLabel}
-                        <div class="question inline-displayed" data-partno="${part.n}" data-parttype="${part.type}">
+                        <div class="question inline-displayed" data-partno="${partNumber}" data-parttype="${escapeHtml(String(part.type))}">
 
             <div class="stem">
                 ${stemHTML}
             </div>
-            <div class="answers">
-${answersHTML}
+            <div class="answers"${quizAttributes}>
+${answersHTML}${quiz?.key ? `
+                <p class="quiz-result" aria-live="polite"></p>` : ''}
             </div>
         </div>`;
   }).join('\n\n');
 
+  const row = options.row;
+  const questionLabel = escapeHtml(labels.question);
+  const name = row?.label ? escapeHtml(row.label) : options.number === undefined ? null : `${questionLabel} ${formatNumber(locale, options.number)}`;
+  const numberLabel = name === null ? `${questionLabel} (${qId})` : view === 'answers' ? `${name} (${qId})` : name;
+  const pointsLabel = row?.points != null ? ` <span class="question-points">(${escapeHtml(formatPoints(locale, row.points))})</span>` : '';
+  const notesHTML = view === 'answers' && row?.notes
+    ? `
+                    <div class="question-notes"><p>${escapeHtml(row.notes)}</p></div>` : '';
+
   return `
-            <div class="instance ${dirClass}" data-questionid="${qId}">
+            <div class="instance ${dirClass}" lang="${escapeHtml(question.language_code)}" dir="${dir}" data-questionid="${qId}"${row ? renderDataAttributes(row.extra) : ''}>
                 <div class="${wrapperClass}">
                     <div class="question-number">
-                        <p>Question (${qId})</p>
+                        <p>${numberLabel}${pointsLabel}</p>
                     </div>
-${partsHTML}
+${partsHTML}${notesHTML}
 
 
 
@@ -409,52 +825,84 @@ ${partsHTML}
             </div>`;
 }
 
-// ─── Public API ───────────────────────────────────
-
-export interface ExportResult {
-  blob: Blob;
-  successCount: number;
-  failedIds: string[];
-  failedImagePaths: string[];
+// ─── CSV row metadata ─────────────────────────────
+
+export interface QuestionListOptions {
+  view?: QuestionView;
+  // Number questions 1, 2, 3… across sections; otherwise they are labelled by ID
+  numbered?: boolean;
+  rows?: QuestionRow[];
+  removals?: SanitizerRemoval[];
+  assets?: Set<string>;
+  mathOutput?: MathOutput;
+  mathErrors?: MathRenderError[];
 }
 
-export async function generateExportHTML(
-  questionIds: string[],
-  onProgress?: (loaded: number, total: number, phase: string) => void
-): Promise<ExportResult> {
-  const failedIds: string[] = [];
-  let processedQuestions = 0;
-  const questionResults = await mapWithConcurrency(questionIds, QUESTION_FETCH_CONCURRENCY, async (id) => {
-    try {
-      const response = await fetch(`${BASE_URL}/${id}/${id}.json`);
-      if (!response.ok) {
-        console.warn(`Failed to fetch question ${id}: ${response.status}`);
-        return { id, question: null as QuestionJSON | null };
-      }
-      const question = await response.json() as QuestionJSON;
-      return { id, question };
-    } catch (err) {
-      console.warn(`Error fetching question ${id}:`, err);
-      return { id, question: null as QuestionJSON | null };
-    } finally {
-      processedQuestions += 1;
-      onProgress?.(processedQuestions, questionIds.length, 'questions');
-    }
-  });
+function indexRows(rows: QuestionRow[] = []): Map<string, QuestionRow> {
+  return new Map(rows.map((row) => [row.questionId, row]));
+}
 
-  const questions: QuestionJSON[] = [];
-  for (const result of questionResults) {
-    if (result.question) {
-      questions.push(result.question);
-    } else {
-      failedIds.push(result.id);
-    }
+// Makes every section contiguous, sections in order of first appearance in the
+// CSV; questions keep their relative order within a section. Questions without a
+// section come first, since after a heading they would read as part of that section.
+export function arrangeBySection(questions: QuestionJSON[], rows?: QuestionRow[]): QuestionJSON[] {
+  const byId = indexRows(rows);
+  const sectionRank = new Map<string | null, number>([[null, 0]]);
+  for (const row of rows ?? []) {
+    if (!sectionRank.has(row.section)) sectionRank.set(row.section, sectionRank.size);
   }
+  const rank = (question: QuestionJSON) => sectionRank.get(byId.get(question.question_id)?.section ?? null) ?? 0;
+  return questions
+    .map((question, index) => ({ question, index }))
+    .sort((a, b) => rank(a.question) - rank(b.question) || a.index - b.index)
+    .map(({ question }) => question);
+}
+
+// Renders the questions in the given order, with a heading wherever the section changes
+export function renderQuestionList(questions: QuestionJSON[], options: QuestionListOptions = {}): string {
+  const byId = indexRows(options.rows);
+  let currentSection: string | null = null;
+  return questions.map((question, i) => {
+    const row = byId.get(question.question_id);
+    const section = row?.section ?? null;
+    const heading = section !== null && section !== currentSection
+      ? `
+<h2 class="export-section-title">${escapeHtml(section)}</h2>` : '';
+    currentSection = section;
+    const html = generateQuestionHTML(question, {
+      view: options.view,
+      number: options.numbered ? i + 1 : undefined,
+      row,
+      removals: options.removals,
+      assets: options.assets,
+      mathOutput: options.mathOutput,
+      mathErrors: options.mathErrors,
+    });
+    return heading + html;
+  }).join('\n');
+}
 
-  const questionDivs = questions.map((q) => generateQuestionHTML(q)).join('\n');
+// Sum of the points column over the exported questions; null when no row has points
+export function sumPoints(questions: QuestionJSON[], rows?: QuestionRow[]): number | null {
+  const byId = indexRows(rows);
+  const points = questions
+    .map((question) => byId.get(question.question_id)?.points)
+    .filter((value): value is number => value != null);
+  return points.length > 0 ? points.reduce((sum, value) => sum + value, 0) : null;
+}
 
-  const html = `<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
-            <html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+// Math is already rendered into the markup; only KaTeX's HTML output needs its stylesheet.
+// locale is the document's (see commonLocale); each question carries its own lang and dir.
+export function buildExportDocument(
+  questionDivs: string,
+  title: string,
+  heading?: string,
+  totalPoints?: number | null,
+  mathOutput: MathOutput = 'html',
+  locale: ExportLocale = DEFAULT_LOCALE
+): string {
+  return `<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+            <html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${escapeHtml(locale.code)}" lang="${escapeHtml(locale.code)}" dir="${locale.dir}">
             <head>
                 <meta http-equiv="Content-Type" content="text/html; charset=utf-8" />
                 <meta name="Author" content="Nagwa" />
@@ -462,15 +910,15 @@ export async function generateExportHTML(
                 <meta charset="utf-8" />
                 <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=yes" />
                 <meta name="format-detection" content="telephone=no" />
+                <title>${title}</title>
                 <meta property="og:image" content="https://contents.nagwa.com/content/images/nagwa-share.png">
                 <link rel="icon" href="https://contents.nagwa.com/content/images/favicon.png" type="image/png" />
                 <link href="https://contents.nagwa.com/content/styles/app-min.637857909358239378.css" rel="stylesheet" />
                 <link href="https://contents.nagwa.com/content/styles/plyr-min.637845694981855899.css" rel="stylesheet" />
-
-                <!-- KaTeX for math rendering -->
-                <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css" />
-                <script src="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.js"><\/script>
-
+${mathOutput === 'html' ? `
+                <!-- KaTeX styles for the pre-rendered math -->
+                <link rel="stylesheet" href="${KATEX_STYLESHEET_URL}" />
+` : ''}
                 <style>
                     /* ===== Blank-line / Gap Span ===== */
                     span[data-node-type="blank-line"] {
@@ -619,80 +1067,309 @@ export async function generateExportHTML(
                         direction: ltr;
                         text-align: left;
                     }
+
+                    /* ===== Document Heading (exam versions) ===== */
+                    .export-heading {
+                        text-align: center;
+                        margin: 20px 0;
+                    }
+                    .export-total-points {
+                        text-align: center;
+                        font-weight: 700;
+                        margin: 10px 0 20px;
+                    }
+
+                    /* ===== CSV Sections, Points and Notes ===== */
+                    .export-section-title {
+                        margin: 30px 0 10px;
+                        padding-bottom: 6px;
+                        border-bottom: 2px solid #333;
+                    }
+                    .question-points {
+                        font-weight: 400;
+                        color: #555;
+                    }
+                    .question-notes p {
+                        margin: 10px 0 0;
+                        padding: 8px 12px;
+                        border-left: 3px solid #999;
+                        background: #f6f6f6;
+                        font-style: italic;
+                    }
+
+                    /* ===== Worksheet Answer Areas ===== */
+                    .answer-blank {
+                        display: inline-block;
+                        min-width: 160px;
+                        height: 1.6em;
+                        border-bottom: 1.5px solid #333;
+                        vertical-align: bottom;
+                    }
+                    .answer-lines .answer-line {
+                        height: 2em;
+                        border-bottom: 1px solid #999;
+                    }
+                    .word-bank li > span,
+                    .ordering-box {
+                        font-size: 1.2em;
+                    }
+                    .puzzle-pieces img {
+                        max-width: 120px;
+                        margin: 4px;
+                        border: 1px dashed #999;
+                    }
+
+                    /* ===== Ordering, Matching, Puzzle and Counting Layouts ===== */
+                    .mcq_choices.ordering-horizontal {
+                        display: flex;
+                        flex-wrap: wrap;
+                        gap: 8px;
+                    }
+                    .matching-pairs td {
+                        vertical-align: middle;
+                        padding: 4px;
+                    }
+                    .matching-connector {
+                        min-width: 60px;
+                    }
+                    .matching-connector span {
+                        display: block;
+                        position: relative;
+                        border-top: 2px solid #333;
+                    }
+                    .matching-connector span::after {
+                        content: '';
+                        position: absolute;
+                        inset-inline-end: -2px;
+                        top: -7px;
+                        border: 6px solid transparent;
+                        border-inline-start: 9px solid #333;
+                        border-inline-end-width: 0;
+                    }
+                    .puzzle-grid {
+                        display: inline-grid;
+                        gap: 2px;
+                        margin: 8px 0;
+                    }
+                    .puzzle-grid img {
+                        display: block;
+                        max-width: 120px;
+                    }
+                    .puzzle-grid--empty {
+                        display: grid;
+                        max-width: 360px;
+                    }
+                    .puzzle-cell {
+                        aspect-ratio: 1;
+                        border: 1px dashed #999;
+                    }
+                    .counting-grid {
+                        display: inline-grid;
+                        margin: 8px 0;
+                        border-top: 1px solid #333;
+                        border-inline-start: 1px solid #333;
+                    }
+                    .counting-cell {
+                        height: 1.6em;
+                        border-bottom: 1px solid #333;
+                        border-inline-end: 1px solid #333;
+                    }
+                    .counting-cell--filled {
+                        background: radial-gradient(circle, #333 35%, transparent 40%);
+                    }
+                    span[data-node-type="blank-line"].gap-filled {
+                        font-weight: 700;
+                        color: #1b5e20;
+                    }
                 </style>
             </head>
-            <body>
+            <body>${heading ? `
+<h1 class="export-heading">${heading}</h1>` : ''}${totalPoints != null ? `
+<p class="export-total-points">${escapeHtml(`${locale.labels.total}: ${formatPoints(locale, totalPoints)}`)}</p>` : ''}
 <div class="instances instances--instances-preview" id="questionList">
 ${questionDivs}
 </div>
-<script>
-document.addEventListener('DOMContentLoaded', function() {
-    document.querySelectorAll('math-field').forEach(function(mf) {
-        var latex = mf.getAttribute('value') || mf.textContent || '';
-        if (!latex.trim()) return;
-        var span = document.createElement('span');
-        span.className = 'katex-rendered';
-        try {
-            katex.render(latex, span, {
-                throwOnError: false,
-                displayMode: mf.closest('[data-node-variation="block"]') !== null ||
-                              mf.closest('.LexicalTheme__math--block') !== null ||
-                              mf.closest('.LexicalTheme__math-block') !== null
-            });
-        } catch(e) {
-            span.textContent = latex;
-        }
-        mf.parentNode.replaceChild(span, mf);
-    });
-});
-<\/script>
 </body></html>
   `;
+}
 
-  // Phase 2: Collect all image paths from the generated HTML
-  const imagePaths = [...new Set(collectImagePaths(html))];
-  const failedImagePathSet = new Set<string>();
-  const zip = new JSZip();
-  zip.file('Questions_Export.html', html);
+// ─── Public API ───────────────────────────────────
 
-  // Phase 3: Download images and add to ZIP
-  if (imagePaths.length > 0) {
-    let processedImages = 0;
-    await mapWithConcurrency(imagePaths, IMAGE_FETCH_CONCURRENCY, async (imgPath) => {
-      const imageUrl = resolveImageUrl(imgPath);
-      if (!imageUrl) {
-        failedImagePathSet.add(imgPath);
-        processedImages += 1;
-        onProgress?.(processedImages, imagePaths.length, 'images');
-        return null;
-      }
+export interface ExportResult {
+  blob: Blob;
+  successCount: number;
+  failedIds: string[];
+  failedImagePaths: string[];
+  // Schema problems found in the downloaded question JSON, per question and part
+  validationIssues: ValidationIssue[];
+  // Per-ID outcome; also written into ZIP exports as export-report.json/.csv
+  report: ExportReport;
+  // Seed the exam versions were shuffled with (only for the 'versions' variant)
+  versionSeed?: string;
+  // Remote stylesheets/scripts/fonts that could not be inlined (only for self-contained exports)
+  failedInlineUrls?: string[];
+  // File name the blob should be saved under
+  fileName?: string;
+  // Unsafe markup stripped from the question HTML (HTML and PDF exports)
+  sanitizerRemovals?: SanitizerRemoval[];
+  // LaTeX that did not parse, shown as KaTeX error text (HTML and PDF exports)
+  mathErrors?: MathRenderError[];
+}
+
+// 'answers': one document with the key filled in (the original export)
+// 'worksheet': a student handout plus a separate answer key, numbered identically
+// 'versions': versionCount shuffled worksheets, each with its own key and choice mapping
+// 'quiz': one interactive document students answer and check in the browser
+export type ExportVariant = 'answers' | 'worksheet' | 'versions' | 'quiz';
+
+export interface ExportOptions extends FetchOptions {
+  // Where question JSON and images are read from (defaults to the /api/questions proxy)
+  source?: QuestionSource;
+  variant?: ExportVariant;
+  versionCount?: number;
+  // Same seed + same ID list regenerates identical versions; random when omitted
+  versionSeed?: string;
+  // Inline CSS, fonts, KaTeX and images so each document works offline. A single
+  // document is returned as a bare .html file instead of a ZIP.
+  selfContained?: boolean;
+  // Parsed CSV rows: questions are grouped by section, show their points and label,
+  // and the document header totals the points
+  rows?: QuestionRow[];
+  // 'mathml' writes math as MathML only, for Word import and screen readers
+  mathOutput?: MathOutput;
+  // Quiz variant: let students download their responses and score as JSON
+  quizResponses?: boolean;
+}
 
-      try {
-        const response = await fetch(imageUrl);
-        if (response.ok) {
-          const blob = await response.blob();
-          zip.file(imgPath, blob);
-        } else {
-          failedImagePathSet.add(imgPath);
-          console.warn(`Failed to download image ${imageUrl}: ${response.status}`);
-        }
-      } catch (err) {
-        failedImagePathSet.add(imgPath);
-        console.warn(`Error downloading image ${imageUrl}:`, err);
-      } finally {
-        processedImages += 1;
-        onProgress?.(processedImages, imagePaths.length, 'images');
+export async function generateExportHTML(
+  questionIds: string[],
+  onProgress?: ProgressCallback,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const source = options.source ?? createHttpSource();
+  const fetched = await fetchQuestions(questionIds, source, onProgress, options);
+  const { failedIds, validationIssues, questionOutcomes } = fetched;
+  const rows = options.rows;
+  const questions = arrangeBySection(fetched.questions, rows);
+  const totalPoints = sumPoints(questions, rows);
+  const reportInput = { format: 'html', questionIds, questions, questionOutcomes, validationIssues };
+
+  const documents: Record<string, string> = {};
+  const dataFiles: Record<string, string> = {};
+  const removals: SanitizerRemoval[] = [];
+  // Filled while rendering: every image the documents refer to, and nothing else
+  const assets = new Set<string>();
+  const mathOutput = options.mathOutput ?? 'html';
+  const mathErrors: MathRenderError[] = [];
+  const listOptions = { rows, removals, assets, mathOutput, mathErrors };
+  // Titles and headings follow the questions' language when they all share one
+  const locale = commonLocale(questions.map((question) => question.language_code));
+  const labels = locale.labels;
+  let versionSeed: string | undefined;
+  if (options.variant === 'versions') {
+    versionSeed = options.versionSeed?.trim() || createRandomSeed();
+    // Shuffling mixes sections; regroup so each stays under its own heading
+    const versions = buildExamVersions(questions, options.versionCount ?? 2, versionSeed)
+      .map((version) => ({ ...version, questions: arrangeBySection(version.questions, rows) }));
+    for (const version of versions) {
+      const prefix = `Version_${version.name}`;
+      const worksheetDivs = renderQuestionList(version.questions, { view: 'student', numbered: true, ...listOptions });
+      const answerKeyDivs = renderQuestionList(version.questions, { view: 'answers', numbered: true, ...listOptions });
+      const versionTitle = escapeHtml(`${labels.version} ${version.name}`);
+      const answerKeyTitle = escapeHtml(labels.answerKey);
+      documents[`${prefix}_Questions.html`] = buildExportDocument(worksheetDivs, versionTitle, versionTitle, totalPoints, mathOutput, locale);
+      documents[`${prefix}_Answer_Key.html`] = buildExportDocument(answerKeyDivs, `${versionTitle} ${answerKeyTitle}`, `${versionTitle} — ${answerKeyTitle}`, totalPoints, mathOutput, locale);
+      dataFiles[`${prefix}_Mapping.csv`] = choiceMappingsToCSV(version);
+    }
+    dataFiles['versions.json'] = JSON.stringify({
+      seed: versionSeed,
+      questionIds: questions.map((q) => q.question_id),
+      versions: versions.map((version) => ({
+        name: version.name,
+        seed: version.seed,
+        questionOrder: version.questions.map((q) => q.question_id),
+        choiceMappings: version.choiceMappings,
+      })),
+    }, null, 2);
+  } else if (options.variant === 'worksheet') {
+    const worksheetDivs = renderQuestionList(questions, { view: 'student', numbered: true, ...listOptions });
+    const answerKeyDivs = renderQuestionList(questions, { view: 'answers', numbered: true, ...listOptions });
+    documents['Questions_Worksheet.html'] = buildExportDocument(worksheetDivs, escapeHtml(labels.worksheet), undefined, totalPoints, mathOutput, locale);
+    documents['Answer_Key.html'] = buildExportDocument(answerKeyDivs, escapeHtml(labels.answerKey), undefined, totalPoints, mathOutput, locale);
+  } else if (options.variant === 'quiz') {
+    const quizDivs = renderQuestionList(questions, { view: 'quiz', numbered: true, ...listOptions });
+    documents['Quiz.html'] = addQuizRuntime(
+      buildExportDocument(quizDivs, escapeHtml(labels.quiz), undefined, totalPoints, mathOutput, locale),
+      { responsesDownload: options.quizResponses, locale }
+    );
+  } else {
+    const questionDivs = renderQuestionList(questions, listOptions);
+    documents['Questions_Export.html'] = buildExportDocument(questionDivs, escapeHtml(labels.questions), undefined, totalPoints, mathOutput, locale);
+  }
+
+  // Phase 2: Download exactly the images the rendering referred to
+  const imagePaths = [...assets];
+
+  if (options.selfContained) {
+    const { images, failedImagePaths, imageOutcomes } = await fetchImages(imagePaths, source, onProgress, options);
+    const report = buildExportReport({ ...reportInput, imageOutcomes });
+    const inlineContext = createInlineContext();
+    const inlined: Record<string, string> = {};
+    for (const [fileName, html] of Object.entries(documents)) {
+      options.signal?.throwIfAborted();
+      inlined[fileName] = await inlineRemoteAssets(inlineImages(embedKatexStylesheet(html), images), inlineContext);
+    }
+
+    const documentNames = Object.keys(inlined);
+    const isSingleFile = documentNames.length === 1 && Object.keys(dataFiles).length === 0;
+    let blob: Blob;
+    if (isSingleFile) {
+      blob = new Blob([inlined[documentNames[0]]], { type: 'text/html;charset=utf-8' });
+    } else {
+      const zip = new JSZip();
+      for (const [fileName, content] of Object.entries({ ...inlined, ...dataFiles })) {
+        zip.file(fileName, content);
       }
-      return null;
-    });
+      addReportToZip(zip, report);
+      blob = await zip.generateAsync({ type: 'blob' });
+    }
+
+    return {
+      blob,
+      successCount: questions.length,
+      failedIds,
+      failedImagePaths,
+      validationIssues,
+      report,
+      versionSeed,
+      failedInlineUrls: [...inlineContext.failedUrls],
+      fileName: isSingleFile ? documentNames[0] : undefined,
+      sanitizerRemovals: uniqueRemovals(removals),
+      mathErrors: uniqueMathErrors(mathErrors),
+    };
+  }
+
+  const zip = new JSZip();
+  for (const [fileName, content] of Object.entries({ ...documents, ...dataFiles })) {
+    zip.file(fileName, content);
   }
 
+  // Phase 3: Download images and add to ZIP
+  const { failedImagePaths, imageOutcomes } = await addImagesToZip(zip, imagePaths, source, onProgress, options);
+  const report = buildExportReport({ ...reportInput, imageOutcomes });
+  addReportToZip(zip, report);
+
   const blob = await zip.generateAsync({ type: 'blob' });
 
   return {
     blob,
     successCount: questions.length,
     failedIds,
-    failedImagePaths: [...failedImagePathSet],
+    failedImagePaths,
+    validationIssues,
+    report,
+    versionSeed,
+    sanitizerRemovals: uniqueRemovals(removals),
+    mathErrors: uniqueMathErrors(mathErrors),
   };
 }
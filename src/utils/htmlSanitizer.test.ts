@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml, sanitizeQuestionHtml, uniqueRemovals, type SanitizerRemoval } from './htmlSanitizer';
+
+function sanitize(html: string) {
+    const removed: string[] = [];
+    const output = sanitizeHtml(html, (kind, detail) => removed.push(`${kind}:${detail}`));
+    return { output, removed };
+}
+
+// Whatever a browser would build from the output: nothing in it may run script
+function expectInert(output: string) {
+    const body = new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${output}</body></html>`, 'text/html').body;
+    for (const element of body.querySelectorAll('*')) {
+        expect(['script', 'style', 'iframe', 'object', 'embed', 'foreignobject']).not.toContain(element.localName.toLowerCase());
+        for (const attribute of element.attributes) {
+            expect(attribute.name.toLowerCase().startsWith('on'), `${attribute.name} on <${element.localName}>`).toBe(false);
+            expect(attribute.value.replace(/[\s\u0000-\u001f]/g, '').toLowerCase()).not.toMatch(/^(?:javascript|vbscript):/);
+        }
+    }
+}
+
+describe('sanitizeHtml', () => {
+    it('keeps Lexical markup as written', () => {
+        const html = '<p class="LexicalTheme__paragraph" dir="rtl"><b>Bold</b> <a href="https://nagwa.com" target="_blank">link</a><br /></p>' +
+            '<img src="images/q1/a.svg" alt="A" width="120" /><math-field data-latex="x^2" read-only>x^2</math-field>';
+        expect(sanitize(html)).toEqual({ output: html, removed: [] });
+    });
+
+    it('drops event handlers in any case and quoting', () => {
+        const { output, removed } = sanitize(`<img src="a.png" onerror="alert(1)" OnLoad='x()' onclick=y()><p onmouseover=alert(1)>t</p>`);
+        expect(output).toBe('<img src="a.png" /><p>t</p>');
+        expect(removed).toEqual(['attribute:onerror', 'attribute:onload', 'attribute:onclick', 'attribute:onmouseover']);
+    });
+
+    it.each([
+        'javascript:alert(1)',
+        'JaVaScRiPt:alert(1)',
+        ' \tjavascript:alert(1)',
+        'java\tscript:alert(1)',
+        'java&#x09;script:alert(1)',
+        'java&Tab;script:alert(1)',
+        '&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)',
+        '&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A;alert(1)',
+        'javascript&colon;alert(1)',
+        'vbscript:msgbox(1)',
+        'data:text/html,<script>alert(1)</script>',
+        'DATA:text/html;base64,PHNjcmlwdD4=',
+    ])('refuses the link %s', (url) => {
+        const { output, removed } = sanitize(`<a href="${url.replace(/"/g, '&quot;')}">x</a>`);
+        expect(output).toBe('<a>x</a>');
+        expect(removed).toHaveLength(1);
+        expect(removed[0]).toMatch(/^url:href=/);
+    });
+
+    it('allows data images only where an image is loaded', () => {
+        expect(sanitize('<img src="data:image/png;base64,AAAA">').output).toBe('<img src="data:image/png;base64,AAAA" />');
+        expect(sanitize('<img src="data:text/html,x">').output).toBe('<img />');
+        expect(sanitize('<a href="data:image/png;base64,AAAA">x</a>').output).toBe('<a>x</a>');
+        expect(sanitize('<img srcset="a.png 1x, javascript:alert(1) 2x">').output).toBe('<img />');
+    });
+
+    it('drops script and style elements with their content', () => {
+        const { output, removed } = sanitize('<p>a<script>alert("<p>")</script>b<style>body{}</style>c<SCRIPT SRC=//x.js></SCRIPT>d</p>');
+        expect(output).toBe('<p>abcd</p>');
+        expect(removed).toEqual(['element:<script>', 'element:<style>', 'element:<script>']);
+    });
+
+    it('drops an unclosed script to the end of the input', () => {
+        expect(sanitize('<p>a</p><script>alert(1)<p>b</p>').output).toBe('<p>a</p>');
+    });
+
+    it('keeps SVG drawings but not their scripts, animations or foreign content', () => {
+        const { output } = sanitize(
+            '<svg viewBox="0 0 10 10" onload="alert(1)"><script>alert(1)</script><circle r="4" fill="red" />' +
+            '<animate attributeName="href" to="javascript:alert(1)" /><set attributeName="onclick" to="alert(1)" />' +
+            '<foreignObject><iframe src="javascript:alert(1)"></iframe><p>text</p></foreignObject>' +
+            '<a href="javascript:alert(1)"><text>t</text></a><use href="https://evil.example/x.svg#a" />' +
+            '<image href="javascript:alert(1)" /><use xlink:href="#shape" /></svg>'
+        );
+        expect(output).toBe('<svg viewBox="0 0 10 10"><circle r="4" fill="red" />text<text>t</text><use /><image /><use xlink:href="#shape" /></svg>');
+        expectInert(output);
+    });
+
+    it.each([
+        'width: expression(alert(1))',
+        'background: url(javascript:alert(1))',
+        "background: url( 'JAVASCRIPT:alert(1)' )",
+        'background: url("data:text/html,x")',
+        'behavior: url(x.htc)',
+        '-moz-binding: url(x.xml#xss)',
+        'color: red; @import "x.css"',
+        'width: ex\\pression(alert(1))',
+        'width: expr/**/ession(alert(1))',
+        'background: url(&#106;avascript:alert(1))',
+    ])('refuses the style %s', (style) => {
+        const { output, removed } = sanitize(`<p style="${style.replace(/"/g, '&quot;')}">x</p>`);
+        expect(output).toBe('<p>x</p>');
+        expect(removed[0]).toMatch(/^style:/);
+    });
+
+    it('keeps harmless styles', () => {
+        expect(sanitize('<p style="color: red; background: url(images/q1/bg.png)">x</p>').output)
+            .toBe('<p style="color: red; background: url(images/q1/bg.png)">x</p>');
+    });
+
+    it('reads unquoted, single-quoted and valueless attributes', () => {
+        expect(sanitize(`<td colspan=2 class='a "b"' hidden nowrap>x</td>`).output).toBe('<td colspan="2" class="a &quot;b&quot;">x</td>');
+    });
+
+    it('escapes markup it cannot read instead of passing it through', () => {
+        for (const html of [
+            '<img/src=x/onerror=alert(1)>',
+            '<img src="x" onerror="alert(1)"',
+            '<scr<script>ipt>alert(1)</script>',
+            '<a href="javascript:alert(1)" <b>x</b>',
+            '<<script>alert(1)//<</script>',
+        ]) {
+            const { output } = sanitize(html);
+            expectInert(output);
+        }
+        expect(sanitize('1 < 2 > 0').output).toBe('1 &lt; 2 &gt; 0');
+        expect(sanitize('<img/src=x/onerror=alert(1)>').output).toBe('&lt;img/src=x/onerror=alert(1)&gt;');
+    });
+
+    it('drops comments, CDATA and processing instructions', () => {
+        expect(sanitize('a<!-- <script>alert(1)</script> -->b<![CDATA[<img src=x onerror=alert(1)>]]>c<?xml x?>d<!DOCTYPE html>e').output)
+            .toBe('abcde');
+        expect(sanitize('a<!--><img src=x onerror=alert(1)>').output).toBe('a');
+        expect(sanitize('a<!-- x --!><img src=x onerror=alert(1)> -->b').output).toBe('ab');
+    });
+
+    it('unwraps unknown elements and closes what was left open', () => {
+        const { output, removed } = sanitize('<custom-box><p><b>bold</custom-box><form action="javascript:x"><i>i');
+        expect(output).toBe('<p><b>bold<i>i</i></b></p>');
+        expect(removed).toEqual(['element:<custom-box>', 'element:<form>']);
+    });
+});
+
+describe('sanitizeQuestionHtml', () => {
+    it('sanitizes every HTML string of a part and reports removals under it', () => {
+        const removals: SanitizerRemoval[] = [];
+        const part = { n: 2, stem: '<p onclick="x()">Stem</p>', choices: [{ value: '<b>ok</b><script>x</script>', label: 'a' }], note: 'a > b' };
+        expect(sanitizeQuestionHtml(part, 'q1', 2, removals)).toEqual({
+            n: 2,
+            stem: '<p>Stem</p>',
+            choices: [{ value: '<b>ok</b>', label: 'a' }],
+            note: 'a > b',
+        });
+        expect(removals).toEqual([
+            { questionId: 'q1', partNumber: 2, kind: 'attribute', detail: 'onclick' },
+            { questionId: 'q1', partNumber: 2, kind: 'element', detail: '<script>' },
+        ]);
+        expect(uniqueRemovals([...removals, ...removals])).toEqual(removals);
+    });
+});
@@ -0,0 +1,239 @@
+// Allowlist sanitizer for the HTML stored in question JSON (stems, choice values,
+// answers). Runs on plain strings so it works the same in the browser and the CLI.
+
+export type SanitizerRemovalKind = 'element' | 'attribute' | 'url' | 'style';
+
+export interface SanitizerRemoval {
+  questionId: string;
+  // null for markup outside any part
+  partNumber: number | null;
+  kind: SanitizerRemovalKind;
+  // What was dropped, e.g. "<script>", "onerror", "href=javascript:alert(1)"
+  detail: string;
+}
+
+export type RemovalCallback = (kind: SanitizerRemovalKind, detail: string) => void;
+
+// Lexical / Nagwa markup: text formatting, lists, tables, images and math
+const HTML_ELEMENTS = new Set([
+  'p', 'span', 'div', 'br', 'hr', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'sub', 'sup',
+  'small', 'mark', 'code', 'pre', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'a', 'img', 'figure', 'figcaption', 'math-field',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+]);
+
+// Drawing elements only; animation, scripting and foreignObject are not on the list
+const SVG_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline',
+  'polygon', 'text', 'tspan', 'textpath', 'title', 'desc', 'clippath', 'mask', 'pattern', 'marker',
+  'lineargradient', 'radialgradient', 'stop', 'image',
+]);
+
+// Removed together with everything inside them. Other unknown elements are
+// unwrapped: the tag goes, the content stays.
+const DROP_WITH_CONTENT = new Set([
+  'script', 'style', 'iframe', 'object', 'noscript', 'template', 'noembed', 'noframes',
+  'xmp', 'textarea', 'select', 'applet', 'frameset', 'title',
+]);
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col', 'wbr']);
+
+const HTML_ATTRIBUTES = new Set([
+  'class', 'id', 'dir', 'lang', 'style', 'title', 'role', 'alt', 'src', 'srcset', 'sizes', 'href',
+  'width', 'height', 'align', 'valign', 'border', 'cellpadding', 'cellspacing', 'colspan', 'rowspan',
+  'scope', 'headers', 'span', 'start', 'type', 'reversed', 'value', 'target', 'rel', 'loading', 'decoding',
+]);
+
+// Attributes that can make the browser load or navigate to something
+const URL_ATTRIBUTES = new Set(['href', 'src', 'xlink:href', 'action', 'formaction', 'background', 'poster', 'cite', 'longdesc', 'data']);
+
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'tel']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n', lpar: '(', rpar: ')', nbsp: ' ',
+};
+
+const TOKEN_REGEX = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>?|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?|\s*\/(?!>))*)\s*(\/?)>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// Enough of HTML's entity decoding to see through "jav&#x61;script:" style tricks
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function isSafeUrl(value: string, allowDataImage: boolean): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const url = decodeEntities(value).replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(url)?.[1];
+  if (!scheme) return true;
+  if (scheme === 'data') return allowDataImage && /^data:image\/(?:png|jpe?g|gif|webp|bmp|svg\+xml)[;,]/.test(url);
+  return SAFE_URL_SCHEMES.has(scheme);
+}
+
+function isSafeStyle(value: string): boolean {
+  const css = decodeEntities(value).replace(/\/\*[\s\S]*?\*\//g, '');
+  // CSS escapes could spell out any of the below, so they are refused outright
+  if (/\\|expression\s*\(|javascript:|vbscript:|behavior\s*:|-moz-binding|@import/i.test(css)) return false;
+  return [...css.matchAll(/url\s*\(\s*(['"]?)([^'")]*)\1\s*\)/gi)].every((match) => isSafeUrl(match[2], true));
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, '&quot;');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(value: string): string {
+  return value.length > 60 ? `${value.slice(0, 57)}...` : value;
+}
+
+function sanitizeAttributes(tag: string, attrs: string, inSvg: boolean, onRemove: RemovalCallback): string {
+  const isImage = tag === 'img' || tag === 'image';
+  let output = '';
+  for (const match of attrs.matchAll(ATTRIBUTE_REGEX)) {
+    const name = match[1];
+    const lower = name.toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+
+    if (lower.startsWith('on')) {
+      onRemove('attribute', lower);
+      continue;
+    }
+    // SVG and math-field carry many presentation/config attributes; anything but handlers is kept
+    const allowed = HTML_ATTRIBUTES.has(lower) || lower.startsWith('data-') || lower.startsWith('aria-') ||
+      ((inSvg || tag === 'math-field') && !['srcdoc', 'formaction', 'action'].includes(lower));
+    if (!allowed) {
+      onRemove('attribute', lower);
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(lower)) {
+      // <use> may only point inside the document; external references can pull in scripts
+      const safe = tag === 'use' ? value.trim().startsWith('#') : isSafeUrl(value, isImage && lower !== 'action');
+      if (!safe) {
+        onRemove('url', `${lower}=${truncate(value)}`);
+        continue;
+      }
+    } else if (lower === 'srcset') {
+      const candidates = value.split(',').map((candidate) => candidate.trim().split(/\s+/)[0]).filter(Boolean);
+      if (!candidates.every((url) => isSafeUrl(url, true))) {
+        onRemove('url', `srcset=${truncate(value)}`);
+        continue;
+      }
+    } else if (lower === 'style' && !isSafeStyle(value)) {
+      onRemove('style', truncate(value));
+      continue;
+    }
+
+    output += match[2] === undefined && match[3] === undefined && match[4] === undefined
+      ? ` ${name}`
+      : ` ${name}="${escapeAttribute(value)}"`;
+  }
+  return output;
+}
+
+// Keeps allowlisted elements and attributes, drops event handlers, unsafe URLs and
+// styles, escapes stray angle brackets and closes whatever the input left open.
+export function sanitizeHtml(html: string, onRemove: RemovalCallback = () => undefined): string {
+  let output = '';
+  // Open elements as written, innermost last
+  const open: string[] = [];
+  let svgDepth = 0;
+  let last = 0;
+
+  const closeTo = (depth: number) => {
+    while (open.length > depth) {
+      const tag = open.pop() as string;
+      if (tag.toLowerCase() === 'svg') svgDepth -= 1;
+      output += `</${tag}>`;
+    }
+  };
+
+  TOKEN_REGEX.lastIndex = 0;
+  for (let match = TOKEN_REGEX.exec(html); match; match = TOKEN_REGEX.exec(html)) {
+    output += escapeText(html.slice(last, match.index));
+    last = TOKEN_REGEX.lastIndex;
+    const [, closingName, openingName, attrs = '', selfClosing] = match;
+
+    // Comments, doctypes, CDATA and processing instructions are dropped silently
+    if (!closingName && !openingName) continue;
+
+    if (closingName) {
+      const name = closingName.toLowerCase();
+      for (let index = open.length - 1; index >= 0; index--) {
+        if (open[index].toLowerCase() === name) {
+          closeTo(index);
+          break;
+        }
+      }
+      continue;
+    }
+
+    const tag = openingName.toLowerCase();
+    const inSvg = svgDepth > 0 || tag === 'svg';
+    const allowed = inSvg ? SVG_ELEMENTS.has(tag) : HTML_ELEMENTS.has(tag);
+
+    if (!allowed) {
+      onRemove('element', `<${tag}>`);
+      // An SVG <title> is allowed above; an HTML one has raw text content
+      if (DROP_WITH_CONTENT.has(tag) && !selfClosing) {
+        const closing = new RegExp(`</${tag}\\b[^>]*>`, 'ig');
+        closing.lastIndex = last;
+        const end = closing.exec(html);
+        last = end ? closing.lastIndex : html.length;
+        TOKEN_REGEX.lastIndex = last;
+      }
+      continue;
+    }
+
+    const attributes = sanitizeAttributes(tag, attrs, inSvg, onRemove);
+    if (VOID_ELEMENTS.has(tag) && !inSvg) {
+      output += `<${openingName}${attributes} />`;
+    } else if (selfClosing) {
+      output += inSvg ? `<${openingName}${attributes} />` : `<${openingName}${attributes}></${openingName}>`;
+    } else {
+      output += `<${openingName}${attributes}>`;
+      open.push(openingName);
+      if (tag === 'svg') svgDepth += 1;
+    }
+  }
+
+  output += escapeText(html.slice(last));
+  closeTo(0);
+  return output;
+}
+
+// For exporters that build their markup from the raw part fields (QTI, Moodle XML, GIFT):
+// sanitizes every HTML string in value and reports what went under partNumber
+export function sanitizeQuestionHtml<T>(value: T, questionId: string, partNumber: number | null, removals: SanitizerRemoval[]): T {
+  if (typeof value === 'string') {
+    if (!value.includes('<')) return value;
+    return sanitizeHtml(value, (kind, detail) => removals.push({ questionId, partNumber, kind, detail })) as T;
+  }
+  if (Array.isArray(value)) return value.map((item) => sanitizeQuestionHtml(item, questionId, partNumber, removals)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, sanitizeQuestionHtml(child, questionId, partNumber, removals)])
+    ) as T;
+  }
+  return value;
+}
+
+// The same question can be rendered several times (worksheet + key, exam versions);
+// each removal is reported once
+export function uniqueRemovals(removals: SanitizerRemoval[]): SanitizerRemoval[] {
+  const seen = new Map<string, SanitizerRemoval>();
+  for (const removal of removals) {
+    const key = [removal.questionId, removal.partNumber, removal.kind, removal.detail].join('\u0000');
+    if (!seen.has(key)) seen.set(key, removal);
+  }
+  return [...seen.values()];
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { fillGapBlanks, htmlToText, mapAssetReferences, rewriteImagePaths, rewriteQuestionAssets, toAssetPath, transformHtml } from './htmlTransform';
+
+describe('toAssetPath', () => {
+    it('places relative references in the question folder', () => {
+        expect(toAssetPath('a.png', 'q1')).toBe('images/q1/a.png');
+        expect(toAssetPath('./sub/a.png?v=2#x', 'q1')).toBe('images/q1/sub/a.png');
+        expect(toAssetPath('/a.png', 'q1')).toBe('images/q1/a.png');
+        expect(toAssetPath('images/q2/a.png', 'q1')).toBe('images/q2/a.png');
+    });
+
+    it('leaves absolute URLs, data URIs and fragments alone', () => {
+        for (const ref of ['https://x.test/a.png', '//x.test/a.png', 'data:image/png;base64,AA', '#shape', '', '  ']) {
+            expect(toAssetPath(ref, 'q1')).toBeNull();
+        }
+    });
+});
+
+describe('rewriteImagePaths', () => {
+    it('rewrites src, srcset candidates, SVG hrefs and CSS url() and collects each path once', () => {
+        const assets = new Set<string>();
+        const html = rewriteImagePaths(
+            `<img src='a.png' srcset="a.png 1x, b@2x.png 2x, https://x.test/c.png 3x">` +
+            '<svg><image href="d.svg"></image><use xlink:href="sprite.svg#star"></use><use href="#local"></use></svg>' +
+            '<p style="background: url(&quot;e.png&quot;)">x</p><style>.a { background: url(f.png) }</style>',
+            'q1',
+            assets
+        );
+        expect(html).toContain('src="images/q1/a.png"');
+        expect(html).toContain('srcset="images/q1/a.png 1x, images/q1/b@2x.png 2x, https://x.test/c.png 3x"');
+        expect(html).toContain('href="images/q1/d.svg"');
+        expect(html).toContain('xlink:href="images/q1/sprite.svg#star"');
+        expect(html).toContain('href="#local"');
+        expect(html).toContain(`url('images/q1/e.png')`);
+        expect(html).toContain(`url('images/q1/f.png')`);
+        expect([...assets]).toEqual([
+            'images/q1/a.png', 'images/q1/d.svg', 'images/q1/sprite.svg', 'images/q1/b@2x.png', 'images/q1/e.png', 'images/q1/f.png',
+        ]);
+    });
+
+    it('returns text without markup untouched', () => {
+        expect(rewriteImagePaths('a.png & more', 'q1')).toBe('a.png & more');
+    });
+});
+
+describe('mapAssetReferences', () => {
+    it('replaces references with what the map returns, or keeps them when it returns null', () => {
+        const html = transformHtml('<img src="a.png"><img src="b.png"><img src="https://x.test/c.png">', (body) =>
+            mapAssetReferences(body, 'q1', (assetPath) => (assetPath.endsWith('a.png') ? 'data:image/png;base64,AA' : null))
+        );
+        expect(html).toBe('<img src="data:image/png;base64,AA"><img src="b.png"><img src="https://x.test/c.png">');
+    });
+});
+
+describe('rewriteQuestionAssets', () => {
+    it('rewrites every HTML string of a part', () => {
+        const assets = new Set<string>();
+        const part = rewriteQuestionAssets({ n: 1, stem: '<img src="a.png">', choices: [{ value: '<img src="b.png">', label: 'a.png' }] }, 'q1', assets);
+        expect(part).toEqual({ n: 1, stem: '<img src="images/q1/a.png">', choices: [{ value: '<img src="images/q1/b.png">', label: 'a.png' }] });
+        expect([...assets]).toEqual(['images/q1/a.png', 'images/q1/b.png']);
+    });
+});
+
+describe('text and gaps', () => {
+    it('reads math as LaTeX and collapses whitespace', () => {
+        expect(htmlToText('<p>x  =</p>\n<p><math-field>\\frac{1}{2}</math-field></p>')).toBe('x = \\frac{1}{2}');
+    });
+
+    it('fills blanks in document order and leaves extra ones empty', () => {
+        const html = transformHtml('<p>A <span data-node-type="blank-line"></span> B <span data-node-type="blank-line"></span></p>', (body) =>
+            fillGapBlanks(body, ['<b>one</b>'])
+        );
+        expect(html).toContain('<b>one</b></span> B <span data-node-type="blank-line"></span></p>');
+        expect(html.match(/class="gap-filled"/g)).toHaveLength(1);
+    });
+});
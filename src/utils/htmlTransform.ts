@@ -0,0 +1,159 @@
+import { resolveImagePath } from './exportPipeline';
+import { replaceMathFields } from './mathMarkup';
+
+// Parsed-DOM rewriting of question HTML. Uses the global DOMParser: the browser's own,
+// or the one the CLI installs from linkedom before exporting.
+
+// Where a question's markup can point at one of its image files
+const URL_ATTRIBUTES: [selector: string, attribute: string][] = [
+  ['img', 'src'],
+  ['image', 'href'],
+  ['image', 'xlink:href'],
+  ['use', 'href'],
+  ['use', 'xlink:href'],
+  ['source', 'src'],
+];
+const SRCSET_ELEMENTS = ['img', 'source'];
+const CSS_URL_REGEX = /url\(\s*(['"]?)([^'")]*)\1\s*\)/gi;
+
+function parseBody(html: string): HTMLElement {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('HTML transforms need a DOMParser (a browser, or the CLI with linkedom installed)');
+  }
+  const doc = new DOMParser().parseFromString(`<!DOCTYPE html><html><head></head><body>${html}</body></html>`, 'text/html');
+  return doc.body;
+}
+
+// Runs edit on the parsed fragment and serializes it back
+export function transformHtml(html: string, edit: (body: HTMLElement) => void): string {
+  if (!html.includes('<')) return html;
+  const body = parseBody(html);
+  edit(body);
+  return body.innerHTML;
+}
+
+// Visible text of a fragment with math as its LaTeX and whitespace collapsed, e.g. to
+// compare a typed answer with an acceptable answer stored as HTML
+export function htmlToText(html: string): string {
+  const body = parseBody(replaceMathFields(html, ({ latex }) => ` ${latex} `));
+  return (body.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+// ─── Asset references ─────────────────────────────
+
+// images/{questionId}/{file} for a reference relative to the question's folder; null for
+// absolute URLs, data URIs and fragments. Query strings and hashes are not part of the
+// file name on disk or in the ZIP.
+export function toAssetPath(ref: string, questionId: string): string | null {
+  const trimmed = ref.trim();
+  if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+    return null;
+  }
+  const filePath = trimmed.split(/[?#]/)[0].replace(/^(?:\.\/|\/)+/, '');
+  if (!filePath) return null;
+  const assetPath = filePath.startsWith('images/') ? filePath : `images/${questionId}/${filePath}`;
+  return resolveImagePath(assetPath) ? assetPath : null;
+}
+
+function rewriteSrcset(value: string, rewrite: (ref: string) => string): string {
+  return value
+    .split(',')
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return url ? [rewrite(url), ...descriptors].join(' ') : '';
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+function rewriteCssUrls(css: string, rewrite: (ref: string) => string): string {
+  return css.replace(CSS_URL_REGEX, (match, _quote: string, ref: string) => {
+    const rewritten = rewrite(ref);
+    return rewritten === ref ? match : `url('${rewritten}')`;
+  });
+}
+
+// Visits every image reference under root: src, srcset, SVG <image>/<use> href and
+// xlink:href, and url() in style attributes and <style> elements. The callback returns
+// the replacement reference.
+function forEachAssetReference(root: HTMLElement, rewrite: (ref: string) => string): void {
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    for (const element of root.getElementsByTagName(selector)) {
+      const value = element.getAttribute(attribute);
+      if (value !== null) element.setAttribute(attribute, rewrite(value));
+    }
+  }
+  for (const tag of SRCSET_ELEMENTS) {
+    for (const element of root.getElementsByTagName(tag)) {
+      const value = element.getAttribute('srcset');
+      if (value !== null) element.setAttribute('srcset', rewriteSrcset(value, rewrite));
+    }
+  }
+  for (const element of root.querySelectorAll('[style]')) {
+    element.setAttribute('style', rewriteCssUrls(element.getAttribute('style') ?? '', rewrite));
+  }
+  for (const element of root.getElementsByTagName('style')) {
+    element.textContent = rewriteCssUrls(element.textContent ?? '', rewrite);
+  }
+}
+
+// Replaces every reference to one of the question's files with whatever map returns for
+// its images/{questionId}/… path, or leaves it as written when map returns null.
+// A #fragment (SVG sprites) is carried over; a query is not.
+export function mapAssetReferences(root: HTMLElement, questionId: string, map: (assetPath: string) => string | null): void {
+  forEachAssetReference(root, (ref) => {
+    const assetPath = toAssetPath(ref, questionId);
+    if (!assetPath) return ref;
+    const replacement = map(assetPath);
+    if (replacement === null) return ref;
+    const hash = /#.*$/.exec(ref.trim())?.[0] ?? '';
+    return replacement.startsWith('images/') ? replacement + hash : replacement;
+  });
+}
+
+// Points every relative image reference at images/{questionId}/… and adds each
+// resulting path to assets, which is then exactly what the download phase fetches.
+export function rewriteAssetReferences(root: HTMLElement, questionId: string, assets?: Set<string>): void {
+  mapAssetReferences(root, questionId, (assetPath) => {
+    assets?.add(assetPath);
+    return assetPath;
+  });
+}
+
+export function rewriteImagePaths(html: string, questionId: string, assets?: Set<string>): string {
+  return transformHtml(html, (body) => rewriteAssetReferences(body, questionId, assets));
+}
+
+// Lexical paragraphs need the theme class and a direction to pick up the exported styles
+export function addLexicalClass(root: HTMLElement, dir: string): void {
+  for (const paragraph of root.getElementsByTagName('p')) {
+    paragraph.classList.add('LexicalTheme__paragraph');
+    if (!paragraph.hasAttribute('dir')) paragraph.setAttribute('dir', dir);
+  }
+}
+
+// Answer keys: puts valuesHtml[i] into the i-th blank line of a gap stem, in document order
+export function fillGapBlanks(root: HTMLElement, valuesHtml: string[]): void {
+  root.querySelectorAll('span[data-node-type="blank-line"]').forEach((blank, index) => {
+    if (index >= valuesHtml.length) return;
+    blank.innerHTML = valuesHtml[index];
+    blank.classList.add('gap-filled');
+  });
+}
+
+// ─── Question JSON ────────────────────────────────
+
+// For exporters that build their markup from the raw part fields (QTI): rewrites the
+// image references in every HTML string of a part
+export function rewriteQuestionAssets<T>(value: T, questionId: string, assets: Set<string>): T {
+  if (typeof value === 'string') {
+    return (value.includes('<') ? rewriteImagePaths(value, questionId, assets) : value) as T;
+  }
+  if (Array.isArray(value)) return value.map((item) => rewriteQuestionAssets(item, questionId, assets)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, rewriteQuestionAssets(child, questionId, assets)])
+    ) as T;
+  }
+  return value;
+}
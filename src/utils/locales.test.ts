@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOCALE, choiceLabel, commonLocale, formatNumber, formatPoints, getLocale, labelAt } from './locales';
+import { buildExportDocument } from './htmlExporter';
+
+describe('getLocale', () => {
+    it('looks questions up by their primary language subtag', () => {
+        expect(getLocale('ar-EG').code).toBe('ar');
+        expect(getLocale('FR_ca').code).toBe('fr');
+        expect(getLocale('iw').code).toBe('he');
+    });
+
+    it('keeps the code and direction of languages without an entry', () => {
+        expect(getLocale('ps')).toMatchObject({ code: 'ps', dir: 'rtl', labels: DEFAULT_LOCALE.labels });
+        expect(getLocale('sw-KE')).toMatchObject({ code: 'sw', dir: 'ltr' });
+    });
+
+    it('falls back to English for anything that is not a language tag', () => {
+        for (const code of ['x"><script>alert(1)</script>', 'unknown lang', 'e', '', undefined, '12']) {
+            expect(getLocale(code)).toBe(DEFAULT_LOCALE);
+        }
+    });
+
+    it('uses English when the questions do not share a language', () => {
+        expect(commonLocale(['ar', 'ar-EG']).code).toBe('ar');
+        expect(commonLocale(['ar', 'fr'])).toBe(DEFAULT_LOCALE);
+    });
+});
+
+describe('locale table', () => {
+    it('continues each label sequence with two-letter labels', () => {
+        const english = getLocale('en');
+        expect([0, 1, 25, 26, 27].map((index) => choiceLabel(english, index))).toEqual(['A', 'B', 'Z', 'AA', 'AB']);
+        const arabic = getLocale('ar');
+        expect([0, 1, 4].map((index) => choiceLabel(arabic, index))).toEqual(['أ', 'ب', 'هـ']);
+        expect(choiceLabel(arabic, 28)).toBe('أأ');
+        expect(choiceLabel(getLocale('fa'), 0)).toBe('الف');
+    });
+
+    it('prefers the label stored with the choice', () => {
+        expect(labelAt('x', 0, getLocale('ar'))).toBe('x');
+        expect(labelAt('', 2, getLocale('he'))).toBe('ג');
+    });
+
+    it('marks right-to-left languages', () => {
+        expect(['ar', 'he', 'fa', 'ur'].map((code) => getLocale(code).dir)).toEqual(['rtl', 'rtl', 'rtl', 'rtl']);
+        expect(['en', 'fr', 'ru'].map((code) => getLocale(code).dir)).toEqual(['ltr', 'ltr', 'ltr']);
+    });
+
+    it('writes numbers with the locale digits', () => {
+        expect(formatNumber(getLocale('ar'), 2026)).toBe('٢٠٢٦');
+        expect(formatNumber(getLocale('fa'), '1.5')).toBe('۱.۵');
+        expect(formatNumber(getLocale('ur'), 42)).toBe('42');
+    });
+
+    it('picks the plural form of points', () => {
+        expect(formatPoints(getLocale('en'), 1)).toBe('1 point');
+        expect(formatPoints(getLocale('en'), 2)).toBe('2 points');
+        expect(formatPoints(getLocale('ar'), 2)).toBe('٢ درجتان');
+        expect(formatPoints(getLocale('ar'), 3)).toBe('٣ درجات');
+        expect(formatPoints(getLocale('ar'), 11)).toBe('١١ درجة');
+        expect(formatPoints(getLocale('unknown lang'), 2)).toBe('2 points');
+    });
+});
+
+describe('document language', () => {
+    it('cannot break out of the lang attribute', () => {
+        const html = buildExportDocument('', 'Questions', undefined, null, 'html', getLocale('x"><script>alert(1)</script>'));
+        expect(html).not.toContain('<script>');
+        expect(html).toContain('lang="en" dir="ltr"');
+    });
+});
@@ -0,0 +1,297 @@
+// Per-language settings shared by the exports and the preview: text direction, the
+// printed labels, the sequence choices are labelled with and the digits numbers use.
+// Questions are looked up by the primary subtag of their language_code ('ar-EG' → ar).
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface ExportLabels {
+  question: string;
+  part: string;
+  // Followed by the group's choice label: "Group A", "المجموعة أ"
+  group: string;
+  version: string;
+  answerKey: string;
+  worksheet: string;
+  quiz: string;
+  questions: string;
+  total: string;
+  // By Intl.PluralRules category; 'other' covers every category not listed
+  points: Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+  page: (page: string, total: string) => string;
+  checkAnswers: string;
+  downloadResponses: string;
+  correct: string;
+  incorrect: string;
+  score: string;
+}
+
+export interface ExportLocale {
+  code: string;
+  dir: TextDirection;
+  labels: ExportLabels;
+  // Past the end the sequence continues with two-letter labels (AA, AB… / أأ, أب…)
+  choiceLabels: string[];
+  // The ten digits, 0 to 9
+  digits: string;
+}
+
+const WESTERN_DIGITS = '0123456789';
+
+const LATIN_LABELS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+// Abjadi order, as Arabic exams letter their choices
+const ARABIC_LABELS = ['أ', 'ب', 'ج', 'د', 'هـ', 'و', 'ز', 'ح', 'ط', 'ي', 'ك', 'ل', 'م', 'ن', 'س', 'ع', 'ف', 'ص', 'ق', 'ر', 'ش', 'ت', 'ث', 'خ', 'ذ', 'ض', 'ظ', 'غ'];
+
+// Persian and Urdu use the same order, with their own forms of a few letters
+const PERSIAN_LABELS = ['الف', 'ب', 'ج', 'د', 'ه', 'و', 'ز', 'ح', 'ط', 'ی', 'ک', 'ل', 'م', 'ن', 'س', 'ع', 'ف', 'ص', 'ق', 'ر', 'ش', 'ت', 'ث', 'خ', 'ذ', 'ض', 'ظ', 'غ'];
+const URDU_LABELS = ['الف', 'ب', 'ج', 'د', 'ہ', 'و', 'ز', 'ح', 'ط', 'ی', 'ک', 'ل', 'م', 'ن', 'س', 'ع', 'ف', 'ص', 'ق', 'ر', 'ش', 'ت', 'ث', 'خ', 'ذ', 'ض', 'ظ', 'غ'];
+
+const HEBREW_LABELS = 'אבגדהוזחטיכלמנסעפצקרשת'.split('');
+
+// Ё, Й and the signs are skipped, as in Russian test papers
+const CYRILLIC_LABELS = 'АБВГДЕЖЗИКЛМНОПРСТУФХЦЧШЩЭЮЯ'.split('');
+
+const ENGLISH_LABELS: ExportLabels = {
+  question: 'Question',
+  part: 'Part',
+  group: 'Group',
+  version: 'Version',
+  answerKey: 'Answer Key',
+  worksheet: 'Worksheet',
+  quiz: 'Quiz',
+  questions: 'Questions',
+  total: 'Total',
+  points: { one: 'point', other: 'points' },
+  page: (page, total) => `Page ${page} of ${total}`,
+  checkAnswers: 'Check answers',
+  downloadResponses: 'Download my responses',
+  correct: 'Correct',
+  incorrect: 'Incorrect',
+  score: 'Score',
+};
+
+const LOCALES: Record<string, ExportLocale> = {
+  en: { code: 'en', dir: 'ltr', labels: ENGLISH_LABELS, choiceLabels: LATIN_LABELS, digits: WESTERN_DIGITS },
+  fr: {
+    code: 'fr',
+    dir: 'ltr',
+    labels: {
+      question: 'Question',
+      part: 'Partie',
+      group: 'Groupe',
+      version: 'Version',
+      answerKey: 'Corrigé',
+      worksheet: 'Fiche d’exercices',
+      quiz: 'Quiz',
+      questions: 'Questions',
+      total: 'Total',
+      points: { one: 'point', other: 'points' },
+      page: (page, total) => `Page ${page} sur ${total}`,
+      checkAnswers: 'Vérifier les réponses',
+      downloadResponses: 'Télécharger mes réponses',
+      correct: 'Correct',
+      incorrect: 'Incorrect',
+      score: 'Score',
+    },
+    choiceLabels: LATIN_LABELS,
+    digits: WESTERN_DIGITS,
+  },
+  es: {
+    code: 'es',
+    dir: 'ltr',
+    labels: {
+      question: 'Pregunta',
+      part: 'Parte',
+      group: 'Grupo',
+      version: 'Versión',
+      answerKey: 'Respuestas',
+      worksheet: 'Hoja de ejercicios',
+      quiz: 'Cuestionario',
+      questions: 'Preguntas',
+      total: 'Total',
+      points: { one: 'punto', other: 'puntos' },
+      page: (page, total) => `Página ${page} de ${total}`,
+      checkAnswers: 'Comprobar respuestas',
+      downloadResponses: 'Descargar mis respuestas',
+      correct: 'Correcto',
+      incorrect: 'Incorrecto',
+      score: 'Puntuación',
+    },
+    choiceLabels: LATIN_LABELS,
+    digits: WESTERN_DIGITS,
+  },
+  ru: {
+    code: 'ru',
+    dir: 'ltr',
+    labels: {
+      question: 'Вопрос',
+      part: 'Часть',
+      group: 'Группа',
+      version: 'Вариант',
+      answerKey: 'Ответы',
+      worksheet: 'Рабочий лист',
+      quiz: 'Тест',
+      questions: 'Вопросы',
+      total: 'Итого',
+      points: { one: 'балл', few: 'балла', many: 'баллов', other: 'балла' },
+      page: (page, total) => `Страница ${page} из ${total}`,
+      checkAnswers: 'Проверить ответы',
+      downloadResponses: 'Скачать мои ответы',
+      correct: 'Верно',
+      incorrect: 'Неверно',
+      score: 'Результат',
+    },
+    choiceLabels: CYRILLIC_LABELS,
+    digits: WESTERN_DIGITS,
+  },
+  ar: {
+    code: 'ar',
+    dir: 'rtl',
+    labels: {
+      question: 'السؤال',
+      part: 'الجزء',
+      group: 'المجموعة',
+      version: 'النموذج',
+      answerKey: 'الإجابات',
+      worksheet: 'ورقة عمل',
+      quiz: 'اختبار',
+      questions: 'الأسئلة',
+      total: 'المجموع',
+      points: { two: 'درجتان', few: 'درجات', other: 'درجة' },
+      page: (page, total) => `صفحة ${page} من ${total}`,
+      checkAnswers: 'تحقق من الإجابات',
+      downloadResponses: 'تنزيل إجاباتي',
+      correct: 'صحيح',
+      incorrect: 'خطأ',
+      score: 'الدرجة',
+    },
+    choiceLabels: ARABIC_LABELS,
+    digits: '٠١٢٣٤٥٦٧٨٩',
+  },
+  he: {
+    code: 'he',
+    dir: 'rtl',
+    labels: {
+      question: 'שאלה',
+      part: 'חלק',
+      group: 'קבוצה',
+      version: 'גרסה',
+      answerKey: 'מפתח תשובות',
+      worksheet: 'דף עבודה',
+      quiz: 'בוחן',
+      questions: 'שאלות',
+      total: 'סה״כ',
+      points: { one: 'נקודה', other: 'נקודות' },
+      page: (page, total) => `עמוד ${page} מתוך ${total}`,
+      checkAnswers: 'בדיקת תשובות',
+      downloadResponses: 'הורדת התשובות שלי',
+      correct: 'נכון',
+      incorrect: 'שגוי',
+      score: 'ציון',
+    },
+    choiceLabels: HEBREW_LABELS,
+    digits: WESTERN_DIGITS,
+  },
+  fa: {
+    code: 'fa',
+    dir: 'rtl',
+    labels: {
+      question: 'سؤال',
+      part: 'بخش',
+      group: 'گروه',
+      version: 'نسخه',
+      answerKey: 'پاسخ‌نامه',
+      worksheet: 'کاربرگ',
+      quiz: 'آزمونک',
+      questions: 'سؤال‌ها',
+      total: 'مجموع',
+      points: { other: 'نمره' },
+      page: (page, total) => `صفحهٔ ${page} از ${total}`,
+      checkAnswers: 'بررسی پاسخ‌ها',
+      downloadResponses: 'دریافت پاسخ‌های من',
+      correct: 'درست',
+      incorrect: 'نادرست',
+      score: 'نمره',
+    },
+    choiceLabels: PERSIAN_LABELS,
+    digits: '۰۱۲۳۴۵۶۷۸۹',
+  },
+  ur: {
+    code: 'ur',
+    dir: 'rtl',
+    labels: {
+      question: 'سوال',
+      part: 'حصہ',
+      group: 'گروپ',
+      version: 'پرچہ',
+      answerKey: 'جوابات',
+      worksheet: 'ورک شیٹ',
+      quiz: 'کوئز',
+      questions: 'سوالات',
+      total: 'کل',
+      points: { other: 'نمبر' },
+      page: (page, total) => `صفحہ ${page} از ${total}`,
+      checkAnswers: 'جوابات چیک کریں',
+      downloadResponses: 'میرے جوابات ڈاؤن لوڈ کریں',
+      correct: 'درست',
+      incorrect: 'غلط',
+      score: 'اسکور',
+    },
+    choiceLabels: URDU_LABELS,
+    // Pakistani print uses Western digits with Urdu text
+    digits: WESTERN_DIGITS,
+  },
+};
+
+// Written right to left even without an entry above; they get English labels
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ku', 'ps', 'sd', 'syr', 'ug', 'ur', 'yi']);
+
+export const DEFAULT_LOCALE = LOCALES.en;
+
+function primaryLanguage(languageCode: string): string {
+  const language = languageCode.trim().toLowerCase().split(/[-_]/)[0];
+  return language === 'iw' ? 'he' : language;
+}
+
+// A BCP 47 primary language subtag. The code ends up in lang attributes and
+// Intl.PluralRules, so anything else in language_code falls back to English.
+const LANGUAGE_SUBTAG_REGEX = /^[a-z]{2,8}$/;
+
+export function getLocale(languageCode: string | undefined): ExportLocale {
+  const language = primaryLanguage(languageCode ?? '');
+  const known = LOCALES[language];
+  if (known) return known;
+  if (!LANGUAGE_SUBTAG_REGEX.test(language)) return DEFAULT_LOCALE;
+  return { ...DEFAULT_LOCALE, code: language, dir: RTL_LANGUAGES.has(language) ? 'rtl' : 'ltr' };
+}
+
+// The locale every question shares, for document titles and chrome; English when they differ
+export function commonLocale(languageCodes: string[]): ExportLocale {
+  const languages = new Set(languageCodes.map(primaryLanguage));
+  return languages.size === 1 ? getLocale(languageCodes[0]) : DEFAULT_LOCALE;
+}
+
+// 0 → A, 25 → Z, 26 → AA; the same bijective numbering in every script
+export function choiceLabel(locale: ExportLocale, index: number): string {
+  const sequence = locale.choiceLabels;
+  let label = '';
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / sequence.length)) {
+    label = sequence[(rest - 1) % sequence.length] + label;
+  }
+  return label;
+}
+
+// The label stored with the choice, else the locale's label for its position
+export function labelAt(label: string, index: number, locale: ExportLocale): string {
+  return label || choiceLabel(locale, index);
+}
+
+export function formatNumber(locale: ExportLocale, value: number | string): string {
+  return String(value).replace(/[0-9]/g, (digit) => locale.digits[Number(digit)]);
+}
+
+export function formatPoints(locale: ExportLocale, points: number): string {
+  const forms = locale.labels.points;
+  const category = new Intl.PluralRules(locale.code).select(points);
+  return `${formatNumber(locale, points)} ${forms[category] ?? forms.other}`;
+}
@@ -0,0 +1,119 @@
+import katex from 'katex';
+import katexCss from 'katex/dist/katex.min.css?inline';
+
+// Helpers for the <math-field> elements Lexical stores LaTeX in.
+
+export interface MathFieldMatch {
+  latex: string;
+  // True when the field is marked as display (block) math
+  isBlock: boolean;
+}
+
+const MATH_FIELD_REGEX = /<math-field\b([^>]*)>([\s\S]*?)<\/math-field>/gi;
+
+function decodeBasicEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readAttribute(attrs: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(attrs);
+  return match ? decodeBasicEntities(match[1] ?? match[2] ?? '') : null;
+}
+
+// Replaces every <math-field> with whatever the callback returns. The field's
+// value attribute wins over its text content, as in renderMathFieldElements.
+export function replaceMathFields(html: string, replacer: (match: MathFieldMatch) => string): string {
+  return html.replace(MATH_FIELD_REGEX, (fullMatch, attrs: string, inner: string) => {
+    const latex = (readAttribute(attrs, 'value') ?? decodeBasicEntities(inner.replace(/<[^>]*>/g, ''))).trim();
+    if (!latex) return '';
+    const isBlock = /math--block|math-block/.test(attrs) || readAttribute(attrs, 'data-node-variation') === 'block';
+    return replacer({ latex, isBlock });
+  });
+}
+
+// \( … \) / \[ … \] delimiters understood by MathJax and Moodle's TeX filter
+export function mathFieldsToTex(html: string): string {
+  return replaceMathFields(html, ({ latex, isBlock }) => (isBlock ? `\\[${latex}\\]` : `\\(${latex}\\)`));
+}
+
+// ─── Static rendering ─────────────────────────────
+
+// 'html': KaTeX's HTML with hidden MathML for screen readers; needs the KaTeX stylesheet
+// 'mathml': MathML only, which Word imports and browsers lay out without any stylesheet
+export type MathOutput = 'html' | 'mathml';
+
+export interface MathRenderError {
+  questionId: string;
+  partNumber: number | null;
+  latex: string;
+  // KaTeX's parse error, e.g. "KaTeX parse error: Expected '}', got 'EOF' at end of input"
+  message: string;
+}
+
+// Same release as the bundled KaTeX that produces the markup
+export const KATEX_STYLESHEET_URL = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`;
+
+// The bundled stylesheet. Its woff2 fonts are data URIs (see assetsInlineLimit in the Vite
+// configs); the woff and ttf fallbacks would point at build files, so they are dropped.
+const KATEX_CSS = katexCss.replace(/,\s*url\([^)]*\.(?:woff|ttf)\)\s*format\(["']?(?:woff|truetype)["']?\)/g, '');
+
+// For documents that must not depend on the CDN (self-contained exports, the PDF layout
+// frame): swaps the KaTeX <link> for the bundled stylesheet
+export function embedKatexStylesheet(documentHtml: string): string {
+  return documentHtml.replace(/<link\b[^>]*katex[^>]*>/gi, () => `<style>\n${KATEX_CSS}\n</style>`);
+}
+
+// A field is display math when it or one of its ancestors is marked as block
+const BLOCK_MATH_SELECTOR = '[data-node-variation="block"], .LexicalTheme__math--block, .LexicalTheme__math-block';
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// LaTeX that does not parse is reported through onError and still rendered, as KaTeX's
+// red error text, so the reader sees where the problem is
+export function renderLatex(latex: string, displayMode: boolean, output: MathOutput = 'html', onError?: (message: string) => void): string {
+  const options = { displayMode, output: output === 'mathml' ? 'mathml' : 'htmlAndMathml' } as const;
+  try {
+    return katex.renderToString(latex, { ...options, throwOnError: true });
+  } catch (err) {
+    onError?.(err instanceof Error ? err.message : String(err));
+    try {
+      return katex.renderToString(latex, { ...options, throwOnError: false });
+    } catch {
+      return `<span class="katex-error">${escapeText(latex)}</span>`;
+    }
+  }
+}
+
+// Swaps each <math-field> under root for static KaTeX output wrapped in span.katex-rendered
+export function renderMathFieldElements(
+  root: ParentNode,
+  output: MathOutput = 'html',
+  onError?: (latex: string, message: string) => void
+): void {
+  root.querySelectorAll('math-field').forEach((mf) => {
+    const latex = (mf.getAttribute('value') || mf.textContent || '').trim();
+    if (!latex) return;
+    const span = (mf.ownerDocument ?? document).createElement('span');
+    span.className = 'katex-rendered';
+    span.innerHTML = renderLatex(latex, mf.closest(BLOCK_MATH_SELECTOR) !== null, output, (message) => onError?.(latex, message));
+    mf.replaceWith(span);
+  });
+}
+
+// The same question can be rendered several times (worksheet + key, exam versions);
+// each failing expression is reported once per part
+export function uniqueMathErrors(errors: MathRenderError[]): MathRenderError[] {
+  const seen = new Map<string, MathRenderError>();
+  for (const error of errors) {
+    const key = [error.questionId, error.partNumber, error.latex].join('\u0000');
+    if (!seen.has(key)) seen.set(key, error);
+  }
+  return [...seen.values()];
+}
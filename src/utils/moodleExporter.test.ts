@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { generateExportMoodle, type MoodleFormat } from './moodleExporter';
+import type { QuestionJSON, QuestionPart } from './questionTypes';
+import { createMemorySource, makeQuestion } from '../test/fixtures';
+
+async function exportMoodle(questions: QuestionJSON[], format: MoodleFormat, assets: Record<string, string> = {}) {
+    const result = await generateExportMoodle(questions.map((q) => q.question_id), format, undefined, {
+        source: createMemorySource(questions, assets),
+        retry: { retries: 0 },
+    });
+    return { result, text: await result.blob.text() };
+}
+
+const choices = (correct: boolean[]) => correct.map((isCorrect, index) => ({ label: '', value: `<p>Choice ${index + 1}</p>`, is_correct: isCorrect }));
+
+describe('Moodle XML export', () => {
+    it('gives single answers 100 and splits multiple answers into allowed fractions', async () => {
+        const { text } = await exportMoodle([
+            makeQuestion('mcq', [{ n: 1, type: 'mcq', stem: '<p>One</p>', choices: choices([false, true]) }]),
+            makeQuestion('mrq', [{ n: 1, type: 'mrq', stem: '<p>Some</p>', choices: choices([true, true, true, false, false]) }]),
+        ], 'xml');
+        const fractions = [...text.matchAll(/<answer fraction="([^"]+)"/g)].map((match) => match[1]);
+        expect(fractions).toEqual(['0', '100', '33.33333', '33.33333', '33.33333', '-50', '-50']);
+        expect(text).toContain('<single>true</single>');
+        expect(text).toContain('<single>false</single>');
+    });
+
+    it('embeds images as files referenced through @@PLUGINFILE@@', async () => {
+        const { text, result } = await exportMoodle([
+            makeQuestion('q1', [{ n: 1, type: 'mcq', stem: '<p><img src="a b.svg" alt=""></p>', choices: choices([true]) }]),
+        ], 'xml', { 'q1/a b.svg': '<svg/>' });
+        expect(text).toContain('<img src="@@PLUGINFILE@@/a%20b.svg" alt="">');
+        expect(text).toContain(`<file name="a b.svg" path="/" encoding="base64">${btoa('<svg/>')}</file>`);
+        expect(result.failedImagePaths).toEqual([]);
+    });
+
+    it('maps numbers with units, short answers and essays', async () => {
+        const { text } = await exportMoodle([
+            makeQuestion('q1', [
+                { n: 1, type: 'input', stem: '<p>Length</p>', correct_answer: { value: '2.5', unit: 'cm' } },
+                { n: 2, type: 'string', stem: '<p>City</p>', acceptable_answers: ['<p>Cairo &amp; Giza</p>'] },
+                { n: 3, type: 'frq', stem: '<p>Explain</p>', acceptable_answers: ['<p>Because</p>'] },
+            ]),
+        ], 'xml');
+        expect(text).toContain('<question type="numerical">');
+        expect(text).toContain('<text>2.5</text>');
+        expect(text).toContain('<unit_name>cm</unit_name>');
+        expect(text).toContain('<text>Cairo &amp; Giza</text>');
+        expect(text).toContain('<question type="essay">');
+    });
+
+    it('names and numbers parts by position, whatever the parts are numbered', async () => {
+        const { text } = await exportMoodle([
+            makeQuestion('q1', [
+                { n: 1, type: 'mcq', stem: '<p>First</p>', choices: choices([true]) },
+                { n: 1, type: 'mcq', stem: '<p>Second</p>', choices: choices([true]) },
+                { type: 'mcq', stem: '<p>Third</p>', choices: choices([true]) } as unknown as QuestionPart,
+            ]),
+        ], 'xml');
+        expect([...text.matchAll(/<idnumber>([^<]+)<\/idnumber>/g)].map((match) => match[1])).toEqual(['q1-1', 'q1-2', 'q1-3']);
+        expect([...text.matchAll(/<name><text>([^<]+)<\/text><\/name>/g)].map((match) => match[1]))
+            .toEqual(['q1 (part 1/3)', 'q1 (part 2/3)', 'q1 (part 3/3)']);
+    });
+
+    it('reports matching parts with too few pairs instead of writing them', async () => {
+        const items = (count: number) => ({
+            A: Array.from({ length: count }, (_, index) => ({ value: `<p>${index + 1}</p>`, label: '' })),
+            B: Array.from({ length: count }, (_, index) => ({ value: `<p>match ${index + 1}</p>`, label: '' })),
+        });
+        const pairs = (count: number) => Array.from({ length: count }, (_, index) => ({ A: `<p>${index + 1}</p>`, B: `<p>match ${index + 1}</p>` }));
+        const { text, result } = await exportMoodle([
+            makeQuestion('two', [{ n: 1, type: 'matching', stem: '<p>Match</p>', items: items(2), correct_answer: pairs(2) }]),
+            makeQuestion('three', [{ n: 1, type: 'matching', stem: '<p>Match</p>', items: items(3), correct_answer: pairs(3) }]),
+        ], 'xml');
+        expect(result.unmappedParts).toEqual([
+            { questionId: 'two', partNumber: 1, type: 'matching', reason: 'Moodle needs at least 3 matching pairs, found 2' },
+        ]);
+        expect(result.failedIds).toEqual(['two']);
+        expect(result.report.questions[0]).toMatchObject({ questionId: 'two', status: 'failed', error: 'No part maps to a Moodle question type' });
+        expect(text.match(/<question type="matching">/g)).toHaveLength(1);
+        expect(text).toContain('<answer><text>match 3</text></answer>');
+    });
+});
+
+describe('GIFT export', () => {
+    it('escapes GIFT control characters in names, stems and answers', async () => {
+        const { text } = await exportMoodle([
+            makeQuestion('q:1', [{ n: 1, type: 'string', stem: '<p>a = {b} ~ c # d \\ e</p>', acceptable_answers: ['x=1'] }]),
+        ], 'gift');
+        expect(text).toBe('::q\\:1::[html]<p>a \\= \\{b\\} \\~ c \\# d \\\\ e</p> {=x\\=1}\n');
+    });
+
+    it('writes choice weights and data URI images', async () => {
+        const { text } = await exportMoodle([
+            makeQuestion('mcq', [{ n: 1, type: 'mcq', stem: '<p><img src="a.svg"></p>', choices: choices([false, true]) }]),
+            makeQuestion('mrq', [{ n: 1, type: 'mrq', stem: '<p>Some</p>', choices: choices([true, false]) }]),
+        ], 'gift', { 'mcq/a.svg': '<svg/>' });
+        expect(text).toContain(`<img src\\="data\\:image/svg+xml;base64,${btoa('<svg/>')}">`);
+        expect(text).toContain('{~<p>Choice 1</p> =<p>Choice 2</p>}');
+        expect(text).toContain('{~%100%<p>Choice 1</p> ~%-100%<p>Choice 2</p>}');
+    });
+});
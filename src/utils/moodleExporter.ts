@@ -0,0 +1,365 @@
+import { isKnownPart, type Choice, type QuestionJSON, type QuestionPart } from './questionTypes';
+import { arrayBufferToBase64, createHttpSource, toDataUri, getMimeType, type QuestionSource } from './questionSource';
+import { fetchImages, fetchQuestions, type FetchOptions, type ProgressCallback, type UnmappedPart } from './exportPipeline';
+import { mapAssetReferences, rewriteImagePaths, transformHtml } from './htmlTransform';
+import { mathFieldsToTex } from './mathMarkup';
+import type { ExportResult } from './htmlExporter';
+import { buildExportReport } from './exportReport';
+import { sanitizeQuestionHtml, uniqueRemovals, type SanitizerRemoval } from './htmlSanitizer';
+
+export interface MoodleExportResult extends ExportResult {
+  unmappedParts: UnmappedPart[];
+}
+
+export interface MoodleExportOptions extends FetchOptions {
+  source?: QuestionSource;
+}
+
+// Moodle only accepts grade fractions from a fixed list; 100/k for k = 1..10 are all on it
+const FRACTION_DIVISORS_LIMIT = 10;
+
+// Moodle's importer rejects matching questions with fewer pairs, in XML and GIFT alike
+const MIN_MATCHING_PAIRS = 3;
+
+// ─── Shared part model ────────────────────────────
+// Both formats are produced from the same normalized description of each part.
+
+interface ExportAnswer {
+  html: string;
+  fraction: number;
+}
+
+type MoodlePart =
+  | { kind: 'multichoice'; single: boolean; answers: ExportAnswer[] }
+  | { kind: 'shortanswer'; answers: string[] }
+  | { kind: 'numerical'; value: number; unit: string }
+  | { kind: 'matching'; pairs: { question: string; answer: string }[] }
+  | { kind: 'essay'; graderInfo: string };
+
+function stripTags(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function formatFraction(value: number): string {
+  return String(Math.round(value * 100000) / 100000);
+}
+
+function choiceFractions(choices: Choice[]): number[] {
+  const correctCount = choices.filter((choice) => choice.is_correct).length;
+  const wrongCount = choices.length - correctCount;
+  const correctFraction = 100 / Math.min(correctCount, FRACTION_DIVISORS_LIMIT);
+  const wrongFraction = wrongCount > 0 ? -100 / Math.min(wrongCount, FRACTION_DIVISORS_LIMIT) : 0;
+  return choices.map((choice) => (choice.is_correct ? correctFraction : wrongFraction));
+}
+
+function toMoodlePart(part: QuestionPart): MoodlePart | string {
+  if (!isKnownPart(part)) return `No Moodle question type for "${part.type}"`;
+  switch (part.type) {
+    case 'mcq':
+    case 'mrq': {
+      const choices = part.choices;
+      if (choices.length === 0) return 'No choices';
+      if (!choices.some((choice) => choice.is_correct)) return 'No correct choice';
+      const single = part.type === 'mcq';
+      const fractions = single ? choices.map((choice) => (choice.is_correct ? 100 : 0)) : choiceFractions(choices);
+      return {
+        kind: 'multichoice',
+        single,
+        answers: choices.map((choice, index) => ({ html: choice.value, fraction: fractions[index] })),
+      };
+    }
+    case 'string': {
+      const answers = part.acceptable_answers.map(stripTags).filter(Boolean);
+      return answers.length > 0 ? { kind: 'shortanswer', answers } : 'No acceptable answers';
+    }
+    case 'input': {
+      const ca = part.correct_answer;
+      if (!ca) return 'No correct_answer value';
+      const numeric = Number(ca.value);
+      if (Number.isFinite(numeric)) {
+        return { kind: 'numerical', value: numeric, unit: ca.unit || '' };
+      }
+      return { kind: 'shortanswer', answers: [String(ca.value)] };
+    }
+    case 'matching': {
+      const items = part.items;
+      const pairs = part.correct_answer
+        ?? (items?.A ?? []).map((a) => ({ A: a.value, B: items?.B.find((b) => b.label === a.matches)?.value ?? '' }));
+      if (pairs.length === 0 || pairs.some((pair) => !pair.A || !pair.B)) return 'Matching pairs are incomplete';
+      if (pairs.length < MIN_MATCHING_PAIRS) return `Moodle needs at least ${MIN_MATCHING_PAIRS} matching pairs, found ${pairs.length}`;
+      // Moodle matching answers are plain text only
+      return { kind: 'matching', pairs: pairs.map((pair) => ({ question: pair.A, answer: stripTags(mathFieldsToTex(pair.B)) })) };
+    }
+    case 'frq':
+      return { kind: 'essay', graderInfo: part.acceptable_answers[0] ?? '' };
+    default:
+      return `No Moodle question type for "${part.type}"`;
+  }
+}
+
+interface PreparedPart {
+  question: QuestionJSON;
+  // Sanitized: every fragment below is safe to hand to the LMS
+  part: QuestionPart;
+  mapped: MoodlePart;
+  name: string;
+  // Unique within the question: authored part numbers may repeat or be missing
+  idNumber: string;
+}
+
+function prepareParts(questions: QuestionJSON[], unmappedParts: UnmappedPart[], removals: SanitizerRemoval[]): PreparedPart[] {
+  const prepared: PreparedPart[] = [];
+  for (const question of questions) {
+    const partCount = question.content.parts.length;
+    for (const [index, rawPart] of question.content.parts.entries()) {
+      // Only what is exported is reported
+      const partRemovals: SanitizerRemoval[] = [];
+      const part = sanitizeQuestionHtml(rawPart, question.question_id, rawPart.n, partRemovals);
+      const mapped = toMoodlePart(part);
+      if (typeof mapped === 'string') {
+        unmappedParts.push({ questionId: question.question_id, partNumber: part.n, type: part.type, reason: mapped });
+        continue;
+      }
+      removals.push(...partRemovals);
+      const position = index + 1;
+      const name = partCount > 1 ? `${question.question_id} (part ${position}/${partCount})` : question.question_id;
+      prepared.push({ question, part, mapped, name, idNumber: `${question.question_id}-${position}` });
+    }
+  }
+  return prepared;
+}
+
+// Every HTML fragment that can carry images or math
+function partHtmlFragments(part: QuestionPart, mapped: MoodlePart): string[] {
+  const fragments = [part.stem];
+  if (mapped.kind === 'multichoice') fragments.push(...mapped.answers.map((answer) => answer.html));
+  if (mapped.kind === 'matching') fragments.push(...mapped.pairs.map((pair) => pair.question));
+  if (mapped.kind === 'essay') fragments.push(mapped.graderInfo);
+  return fragments;
+}
+
+function collectPartImages(prepared: PreparedPart[]): string[] {
+  const assets = new Set<string>();
+  for (const { question, part, mapped } of prepared) {
+    for (const html of partHtmlFragments(part, mapped)) rewriteImagePaths(html, question.question_id, assets);
+  }
+  return [...assets];
+}
+
+// ─── Moodle XML ───────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// Rewrites image references to @@PLUGINFILE@@/{name} and returns the <file> elements to embed
+function toMoodleText(html: string, questionId: string, images: Map<string, ArrayBuffer>, indent: string): string {
+  const files: string[] = [];
+  const seen = new Set<string>();
+  const withImages = transformHtml(mathFieldsToTex(html), (body) =>
+    mapAssetReferences(body, questionId, (imgPath) => {
+      const data = images.get(imgPath);
+      if (!data) return imgPath;
+      const name = imgPath.split('/').pop() as string;
+      if (!seen.has(name)) {
+        seen.add(name);
+        files.push(`${indent}<file name="${escapeXml(name)}" path="/" encoding="base64">${arrayBufferToBase64(data)}</file>`);
+      }
+      return `@@PLUGINFILE@@/${encodeURIComponent(name)}`;
+    })
+  );
+  return `${indent}<text>${cdata(withImages)}</text>${files.length > 0 ? '\n' + files.join('\n') : ''}`;
+}
+
+function moodleQuestionXml({ question, part, mapped, name, idNumber }: PreparedPart, images: Map<string, ArrayBuffer>): string {
+  const qId = question.question_id;
+  const text = (html: string, indent: string) => toMoodleText(html, qId, images, indent);
+  const header = `  <question type="${mapped.kind}">
+    <name><text>${escapeXml(name)}</text></name>
+    <questiontext format="html">
+${text(part.stem, '      ')}
+    </questiontext>
+    <generalfeedback format="html"><text></text></generalfeedback>
+    <defaultgrade>1</defaultgrade>
+    <idnumber>${escapeXml(idNumber)}</idnumber>`;
+
+  let body = '';
+  switch (mapped.kind) {
+    case 'multichoice':
+      body = `
+    <single>${mapped.single}</single>
+    <shuffleanswers>false</shuffleanswers>
+    <answernumbering>abc</answernumbering>
+${mapped.answers.map((answer) => `    <answer fraction="${formatFraction(answer.fraction)}" format="html">
+${text(answer.html, '      ')}
+      <feedback format="html"><text></text></feedback>
+    </answer>`).join('\n')}`;
+      break;
+    case 'shortanswer':
+      body = `
+    <usecase>0</usecase>
+${mapped.answers.map((answer) => `    <answer fraction="100" format="moodle_auto_format">
+      <text>${escapeXml(answer)}</text>
+    </answer>`).join('\n')}`;
+      break;
+    case 'numerical':
+      body = `
+    <answer fraction="100">
+      <text>${mapped.value}</text>
+      <tolerance>0</tolerance>
+    </answer>${mapped.unit ? `
+    <units>
+      <unit>
+        <multiplier>1</multiplier>
+        <unit_name>${escapeXml(mapped.unit)}</unit_name>
+      </unit>
+    </units>
+    <unitgradingtype>0</unitgradingtype>
+    <unitpenalty>0</unitpenalty>
+    <showunits>3</showunits>
+    <unitsleft>0</unitsleft>` : ''}`;
+      break;
+    case 'matching':
+      body = `
+    <shuffleanswers>true</shuffleanswers>
+${mapped.pairs.map((pair) => `    <subquestion format="html">
+${text(pair.question, '      ')}
+      <answer><text>${escapeXml(pair.answer)}</text></answer>
+    </subquestion>`).join('\n')}`;
+      break;
+    case 'essay':
+      body = `
+    <responseformat>editor</responseformat>
+    <responserequired>1</responserequired>
+    <responsefieldlines>10</responsefieldlines>
+    <graderinfo format="html">
+${text(mapped.graderInfo, '      ')}
+    </graderinfo>`;
+      break;
+  }
+
+  return `${header}${body}
+  </question>`;
+}
+
+// ─── GIFT ─────────────────────────────────────────
+
+function escapeGift(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/([~=#{}:])/g, '\\$1').replace(/\r?\n/g, ' ');
+}
+
+// GIFT has no file attachments, so images travel as data URIs inside the [html] text
+function toGiftHtml(html: string, questionId: string, images: Map<string, ArrayBuffer>): string {
+  const withImages = transformHtml(mathFieldsToTex(html), (body) =>
+    mapAssetReferences(body, questionId, (imgPath) => {
+      const data = images.get(imgPath);
+      return data ? toDataUri(data, getMimeType(imgPath)) : imgPath;
+    })
+  );
+  return escapeGift(withImages.trim());
+}
+
+function giftQuestion({ question, part, mapped, name }: PreparedPart, images: Map<string, ArrayBuffer>): string {
+  const html = (value: string) => toGiftHtml(value, question.question_id, images);
+  const title = `::${escapeGift(name)}::`;
+  let stem = html(part.stem);
+  let answer = '';
+
+  switch (mapped.kind) {
+    case 'multichoice':
+      answer = mapped.answers.map((choice) => {
+        if (mapped.single) return `${choice.fraction === 100 ? '=' : '~'}${html(choice.html)}`;
+        return `~%${formatFraction(choice.fraction)}%${html(choice.html)}`;
+      }).join(' ');
+      break;
+    case 'shortanswer':
+      answer = mapped.answers.map((value) => `=${escapeGift(value)}`).join(' ');
+      break;
+    case 'numerical':
+      // GIFT numerical answers cannot carry a unit; show it after the stem instead
+      if (mapped.unit) stem += ` (${escapeGift(mapped.unit)})`;
+      answer = `#${mapped.value}`;
+      break;
+    case 'matching':
+      answer = mapped.pairs.map((pair) => `=${html(pair.question)} -> ${escapeGift(pair.answer)}`).join(' ');
+      break;
+    case 'essay':
+      answer = '';
+      break;
+  }
+
+  return `${title}[html]${stem} {${answer}}`;
+}
+
+// ─── Public API ───────────────────────────────────
+
+export type MoodleFormat = 'xml' | 'gift';
+
+export async function generateExportMoodle(
+  questionIds: string[],
+  format: MoodleFormat,
+  onProgress?: ProgressCallback,
+  options: MoodleExportOptions = {}
+): Promise<MoodleExportResult> {
+  const source = options.source ?? createHttpSource();
+  const { questions, failedIds, validationIssues, questionOutcomes } = await fetchQuestions(questionIds, source, onProgress, options);
+
+  const unmappedParts: UnmappedPart[] = [];
+  const removals: SanitizerRemoval[] = [];
+  const prepared = prepareParts(questions, unmappedParts, removals);
+  const exportedIds = new Set(prepared.map((entry) => entry.question.question_id));
+  // Questions none of whose parts has a Moodle question type are left out of the file
+  const omittedQuestions = new Map(questions
+    .filter((question) => !exportedIds.has(question.question_id))
+    .map((question) => [question.question_id, 'No part maps to a Moodle question type'] as const));
+  const { images, failedImagePaths, imageOutcomes } = await fetchImages(collectPartImages(prepared), source, onProgress, options);
+  const report = buildExportReport({
+    format: format === 'gift' ? 'gift' : 'moodle-xml',
+    questionIds,
+    questions,
+    questionOutcomes,
+    imageOutcomes,
+    validationIssues,
+    omittedQuestions,
+  });
+
+  let content: string;
+  let mimeType: string;
+  if (format === 'gift') {
+    content = prepared.map((entry) => giftQuestion(entry, images)).join('\n\n') + '\n';
+    mimeType = 'text/plain;charset=utf-8';
+  } else {
+    content = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+${prepared.map((entry) => moodleQuestionXml(entry, images)).join('\n')}
+</quiz>
+`;
+    mimeType = 'application/xml;charset=utf-8';
+  }
+
+  return {
+    blob: new Blob([content], { type: mimeType }),
+    successCount: exportedIds.size,
+    failedIds: [...failedIds, ...omittedQuestions.keys()],
+    failedImagePaths,
+    validationIssues,
+    report,
+    unmappedParts,
+    sanitizerRemovals: uniqueRemovals(removals),
+  };
+}
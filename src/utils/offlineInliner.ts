@@ -0,0 +1,187 @@
+import { sanitizeHtml } from './htmlSanitizer';
+import { getMimeType, toDataUri } from './questionSource';
+
+// Turns an exported document into one that needs no network: remote stylesheets,
+// scripts and icons are fetched once and inlined, fonts and images become data URIs.
+
+export interface InlineContext {
+  fetch: typeof fetch;
+  // Remote URL → inlined content, shared across the documents of one export
+  cache: Map<string, Promise<string | null>>;
+  failedUrls: Set<string>;
+}
+
+export function createInlineContext(fetchImpl: typeof fetch = (input, init) => fetch(input, init)): InlineContext {
+  return { fetch: fetchImpl, cache: new Map(), failedUrls: new Set() };
+}
+
+function cached(context: InlineContext, key: string, load: () => Promise<string | null>): Promise<string | null> {
+  let pending = context.cache.get(key);
+  if (!pending) {
+    // Failures end up in failedUrls, which the export reports
+    pending = load().catch(() => null);
+    context.cache.set(key, pending);
+  }
+  return pending.then((value) => {
+    if (value === null) context.failedUrls.add(key);
+    return value;
+  });
+}
+
+async function fetchOk(context: InlineContext, url: string): Promise<Response> {
+  const response = await context.fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response;
+}
+
+function fetchDataUri(context: InlineContext, url: string): Promise<string | null> {
+  return cached(context, url, async () => {
+    const response = await fetchOk(context, url);
+    // CDNs often label fonts as text/plain or octet-stream; trust known extensions first
+    const byExtension = getMimeType(new URL(url).pathname);
+    const type = byExtension !== 'application/octet-stream'
+      ? byExtension
+      : response.headers.get('content-type')?.split(';')[0] || byExtension;
+    return toDataUri(await response.arrayBuffer(), type);
+  });
+}
+
+async function replaceAsync(
+  input: string,
+  regex: RegExp,
+  replacer: (match: RegExpExecArray) => Promise<string>
+): Promise<string> {
+  const matches = [...input.matchAll(regex)] as RegExpExecArray[];
+  const replacements = await Promise.all(matches.map(replacer));
+  let result = '';
+  let lastIndex = 0;
+  matches.forEach((match, index) => {
+    result += input.slice(lastIndex, match.index) + replacements[index];
+    lastIndex = match.index + match[0].length;
+  });
+  return result + input.slice(lastIndex);
+}
+
+// ─── Stylesheets, scripts, icons ──────────────────
+
+// url(...) references (fonts, background images) resolve against the stylesheet's own URL
+function fetchStylesheet(context: InlineContext, url: string): Promise<string | null> {
+  return cached(context, url, async () => {
+    const css = await (await fetchOk(context, url)).text();
+    return replaceAsync(css, /url\(\s*(['"]?)([^'")]+)\1\s*\)/g, async (match) => {
+      const ref = match[2].trim();
+      if (ref.startsWith('data:') || ref.startsWith('#')) return match[0];
+      const dataUri = await fetchDataUri(context, new URL(ref, url).href);
+      return dataUri ? `url("${dataUri}")` : match[0];
+    });
+  });
+}
+
+function fetchScript(context: InlineContext, url: string): Promise<string | null> {
+  return cached(context, url, async () => (await fetchOk(context, url)).text());
+}
+
+function readHref(tag: string, attr: string): string | null {
+  const match = new RegExp(`\\s${attr}\\s*=\\s*"([^"]+)"`, 'i').exec(tag);
+  return match && /^https?:\/\//i.test(match[1]) ? match[1] : null;
+}
+
+export async function inlineRemoteAssets(html: string, context: InlineContext): Promise<string> {
+  let result = await replaceAsync(html, /<link\b[^>]*>/gi, async (match) => {
+    const tag = match[0];
+    const href = readHref(tag, 'href');
+    if (!href) return tag;
+
+    if (/rel\s*=\s*"stylesheet"/i.test(tag)) {
+      const css = await fetchStylesheet(context, href);
+      return css === null ? tag : `<style>\n${css.replace(/<\/style/gi, '<\\/style')}\n</style>`;
+    }
+    if (/rel\s*=\s*"(?:shortcut )?icon"/i.test(tag)) {
+      const dataUri = await fetchDataUri(context, href);
+      return dataUri ? tag.replace(href, dataUri) : tag;
+    }
+    return tag;
+  });
+
+  result = await replaceAsync(result, /<script\b([^>]*)>\s*<\/script>/gi, async (match) => {
+    const src = readHref(match[0], 'src');
+    if (!src) return match[0];
+    const script = await fetchScript(context, src);
+    return script === null ? match[0] : `<script>\n${script.replace(/<\/script/gi, '<\\/script')}\n</script>`;
+  });
+
+  // Sharing previews are meaningless offline and would be the only remaining request
+  return result.replace(/\s*<meta property="og:image"[^>]*>/i, '');
+}
+
+// ─── Images ───────────────────────────────────────
+
+let svgCounter = 0;
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, 'i').exec(tag);
+  return match ? match[1] : null;
+}
+
+// SVGs go into the document as markup so they stay crisp and searchable; ids are
+// prefixed so several inlined drawings cannot clash with each other.
+function inlineSvg(imgTag: string, svgSource: string): string {
+  const prefix = `svg${++svgCounter}-`;
+  let svg = svgSource
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .trim()
+    .replace(/\sid\s*=\s*"([^"]+)"/g, ` id="${prefix}$1"`)
+    .replace(/url\(\s*#([^)]+)\)/g, `url(#${prefix}$1)`)
+    .replace(/(\s(?:xlink:)?href\s*=\s*")#([^"]+)"/g, `$1#${prefix}$2"`);
+
+  const extraAttrs = ['class', 'style', 'width', 'height']
+    .map((name) => {
+      const value = readAttribute(imgTag, name);
+      return value === null ? '' : ` ${name}="${value}"`;
+    })
+    .join('');
+  const alt = readAttribute(imgTag, 'alt');
+  const a11y = alt ? ` role="img" aria-label="${alt}"` : '';
+
+  // Attributes copied from the <img> win over the SVG's own
+  svg = svg.replace(/<svg\b([^>]*)>/i, (match, attrs: string) => {
+    let kept = attrs;
+    for (const name of ['class', 'style', 'width', 'height']) {
+      if (readAttribute(imgTag, name) !== null) {
+        kept = kept.replace(new RegExp(`\\s${name}\\s*=\\s*"[^"]*"`, 'i'), '');
+      }
+    }
+    return `<svg${kept}${extraAttrs}${a11y}>`;
+  });
+  return svg;
+}
+
+// svgAsMarkup: false keeps SVGs as data URIs, which canvas-based renderers handle more reliably
+export function inlineImages(html: string, images: Map<string, ArrayBuffer>, svgAsMarkup = true): string {
+  const withImgTags = html.replace(/<img\b[^>]*>/gi, (tag) => {
+    const src = readAttribute(tag, 'src');
+    const data = src ? images.get(src) : undefined;
+    if (!src || !data) return tag;
+
+    const mimeType = getMimeType(src);
+    if (mimeType === 'image/svg+xml' && svgAsMarkup) {
+      let removals = 0;
+      const svg = sanitizeHtml(new TextDecoder().decode(data), () => {
+        removals += 1;
+      });
+      // Drawings the allowlist would alter (embedded styles, links, scripts) stay data URIs,
+      // which look the same and cannot run anything inside an <img>
+      if (removals === 0) return inlineSvg(tag, svg);
+    }
+    return tag.replace(`"${src}"`, `"${toDataUri(data, mimeType)}"`);
+  });
+  // Whatever else still points at a downloaded file: srcset candidates, SVG <image> hrefs, CSS url()
+  return withImgTags.replace(/(["'(\s,])(images\/[^"'()\s,#?]+)/g, (match, pre: string, path: string) => {
+    const data = images.get(path);
+    return data ? `${pre}${toDataUri(data, getMimeType(path))}` : match;
+  });
+}
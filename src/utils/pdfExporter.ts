@@ -0,0 +1,272 @@
+import html2canvas from 'html2canvas';
+import { jsPDF } from 'jspdf';
+import type { QuestionJSON } from './questionTypes';
+import { createHttpSource, type QuestionSource } from './questionSource';
+import { fetchImages, fetchQuestions, type FetchOptions, type ProgressCallback } from './exportPipeline';
+import {
+  arrangeBySection,
+  buildExportDocument,
+  escapeHtml,
+  renderQuestionList,
+  sumPoints,
+  type ExportResult,
+} from './htmlExporter';
+import type { QuestionRow } from './csvParser';
+import { inlineImages } from './offlineInliner';
+import { buildExportReport } from './exportReport';
+import { embedKatexStylesheet, uniqueMathErrors, type MathRenderError } from './mathMarkup';
+import { uniqueRemovals, type SanitizerRemoval } from './htmlSanitizer';
+import { commonLocale, formatNumber, getLocale, type ExportLocale } from './locales';
+
+// Browser-only: questions are laid out in a hidden iframe, rasterized one .instance
+// at a time and placed on A4 pages so no question is split unless it is taller than a page.
+
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const MARGIN_MM = 15;
+const HEADER_HEIGHT_MM = 14;
+const FOOTER_HEIGHT_MM = 10;
+const GAP_MM = 4;
+const CONTENT_WIDTH_MM = PAGE_WIDTH_MM - MARGIN_MM * 2;
+const PX_PER_MM = 96 / 25.4;
+const RENDER_SCALE = 2;
+const FRAME_LOAD_TIMEOUT_MS = 15000;
+
+export interface PdfHeader {
+  school?: string;
+  title?: string;
+  date?: string;
+}
+
+export interface PdfExportOptions extends FetchOptions {
+  source?: QuestionSource;
+  // 'worksheet' prints the student view; 'answers' prints the key inline
+  variant?: 'answers' | 'worksheet';
+  // Appends the answer key on fresh pages after the questions
+  includeAnswerKey?: boolean;
+  header?: PdfHeader;
+  // Parsed CSV rows for sections, points, labels and notes (see generateExportHTML)
+  rows?: QuestionRow[];
+}
+
+type Direction = 'rtl' | 'ltr';
+
+const PDF_STYLES = `
+  body { margin: 0; background: #fff; }
+  .instances { padding: 0 !important; margin: 0 !important; }
+  .instance { margin: 0 0 8px; padding: 8px 0; background: #fff; }
+  .pdf-section-title { font-size: 20px; font-weight: 700; text-align: center; padding: 12px 0; }
+  .pdf-chrome { display: flex; justify-content: space-between; align-items: center; gap: 16px;
+    font-family: 'Cairo', Arial, sans-serif; font-size: 12px; color: #333; background: #fff; padding: 4px 0; }
+  .pdf-header { border-bottom: 1px solid #999; }
+  .pdf-header .pdf-title { font-weight: 700; font-size: 14px; text-align: center; flex: 1; }
+  .pdf-footer { justify-content: flex-end; color: #666; }
+`;
+
+function buildPdfDocument(
+  questions: QuestionJSON[],
+  options: PdfExportOptions,
+  removals: SanitizerRemoval[],
+  assets: Set<string>,
+  mathErrors: MathRenderError[]
+): string {
+  const bodyView = options.variant === 'worksheet' || options.includeAnswerKey ? 'student' : 'answers';
+  const rows = options.rows;
+  const locale = commonLocale(questions.map((question) => question.language_code));
+  let divs = renderQuestionList(questions, { view: bodyView, numbered: true, rows, removals, assets, mathErrors });
+  if (options.includeAnswerKey) {
+    divs += `\n<div class="pdf-section-title pdf-page-break" dir="${locale.dir}">${escapeHtml(locale.labels.answerKey)}</div>\n`;
+    divs += renderQuestionList(questions, { view: 'answers', numbered: true, rows, removals, assets, mathErrors });
+  }
+
+  // Math is pre-rendered with the bundled KaTeX, whose stylesheet replaces the CDN one
+  return embedKatexStylesheet(buildExportDocument(divs, escapeHtml(options.header?.title || locale.labels.questions), undefined, sumPoints(questions, rows), 'html', locale))
+    .replace('</head>', `<style>${PDF_STYLES}</style></head>`);
+}
+
+function loadFrame(html: string): Promise<HTMLIFrameElement> {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.position = 'fixed';
+  iframe.style.left = '-10000px';
+  iframe.style.top = '0';
+  iframe.style.width = `${Math.round(CONTENT_WIDTH_MM * PX_PER_MM)}px`;
+  iframe.style.height = `${Math.round(PAGE_HEIGHT_MM * PX_PER_MM)}px`;
+  iframe.style.border = 'none';
+  // html2canvas reads the frame's DOM, but nothing in the document may run as the app
+  iframe.setAttribute('sandbox', 'allow-same-origin');
+
+  return new Promise((resolve) => {
+    // Remote stylesheets may never arrive offline; lay out with what has loaded
+    const timer = setTimeout(() => resolve(iframe), FRAME_LOAD_TIMEOUT_MS);
+    iframe.onload = () => {
+      clearTimeout(timer);
+      resolve(iframe);
+    };
+    iframe.srcdoc = html;
+    document.body.appendChild(iframe);
+  });
+}
+
+async function waitForImages(doc: Document): Promise<void> {
+  await Promise.all([...doc.images].map((img) => (img.complete ? null : img.decode().catch(() => null))));
+  await doc.fonts?.ready;
+}
+
+function renderElement(element: HTMLElement): Promise<HTMLCanvasElement> {
+  return html2canvas(element, {
+    scale: RENDER_SCALE,
+    backgroundColor: '#ffffff',
+    useCORS: true,
+    logging: false,
+    windowWidth: element.ownerDocument.documentElement.clientWidth,
+  });
+}
+
+function canvasHeightMm(canvas: HTMLCanvasElement): number {
+  return (canvas.height / canvas.width) * CONTENT_WIDTH_MM;
+}
+
+function createChrome(doc: Document, className: string, dir: Direction, cells: string[]): HTMLElement {
+  const element = doc.createElement('div');
+  element.className = `pdf-chrome ${className}`;
+  element.dir = dir;
+  element.innerHTML = cells.join('');
+  doc.body.appendChild(element);
+  return element;
+}
+
+async function renderHeader(doc: Document, header: PdfHeader, dir: Direction): Promise<HTMLCanvasElement | null> {
+  if (!header.school && !header.title && !header.date) return null;
+  const element = createChrome(doc, 'pdf-header', dir, [
+    `<span>${escapeHtml(header.school ?? '')}</span>`,
+    `<span class="pdf-title">${escapeHtml(header.title ?? '')}</span>`,
+    `<span>${escapeHtml(header.date ?? '')}</span>`,
+  ]);
+  const canvas = await renderElement(element);
+  element.remove();
+  return canvas;
+}
+
+async function renderFooter(doc: Document, page: number, total: number, dir: Direction, locale: ExportLocale): Promise<HTMLCanvasElement> {
+  const text = escapeHtml(locale.labels.page(formatNumber(locale, page), formatNumber(locale, total)));
+  const element = createChrome(doc, 'pdf-footer', dir, [`<span>${text}</span>`]);
+  const canvas = await renderElement(element);
+  element.remove();
+  return canvas;
+}
+
+interface PlacedPage {
+  dir: Direction;
+  // Of the block that opened the page; the footer is written in its language
+  locale: ExportLocale;
+}
+
+export async function generateExportPDF(
+  questionIds: string[],
+  onProgress?: ProgressCallback,
+  options: PdfExportOptions = {}
+): Promise<ExportResult> {
+  const source = options.source ?? createHttpSource();
+  const fetched = await fetchQuestions(questionIds, source, onProgress, options);
+  const { failedIds, validationIssues, questionOutcomes } = fetched;
+  const questions = arrangeBySection(fetched.questions, options.rows);
+
+  // The layout frame shares the app's origin, so the sanitizer matters here as much as in the files
+  const removals: SanitizerRemoval[] = [];
+  const assets = new Set<string>();
+  const mathErrors: MathRenderError[] = [];
+  const rawHtml = buildPdfDocument(questions, options, removals, assets, mathErrors);
+  const imagePaths = [...assets];
+  const { images, failedImagePaths, imageOutcomes } = await fetchImages(imagePaths, source, onProgress, options);
+  const report = buildExportReport({ format: 'pdf', questionIds, questions, questionOutcomes, imageOutcomes, validationIssues });
+  // Data URIs keep html2canvas from tainting the canvas with cross-origin images
+  const html = inlineImages(rawHtml, images, false);
+
+  const iframe = await loadFrame(html);
+  try {
+    const doc = iframe.contentDocument;
+    if (!doc) throw new Error('Could not create the PDF layout frame');
+
+    await waitForImages(doc);
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+    const header = options.header ?? {};
+    const headerCanvases = new Map<Direction, HTMLCanvasElement | null>();
+    const bodyTop = MARGIN_MM + HEADER_HEIGHT_MM;
+    const bodyBottom = PAGE_HEIGHT_MM - MARGIN_MM - FOOTER_HEIGHT_MM;
+    const pages: PlacedPage[] = [];
+    let cursorY = bodyTop;
+
+    const startPage = (dir: Direction, locale: ExportLocale) => {
+      if (pages.length > 0) pdf.addPage();
+      pages.push({ dir, locale });
+      cursorY = bodyTop;
+    };
+
+    const blocks = [...doc.querySelectorAll<HTMLElement>('.export-total-points, .export-section-title, .instance, .pdf-section-title')];
+    for (const [index, block] of blocks.entries()) {
+      options.signal?.throwIfAborted();
+      const dir: Direction = block.classList.contains('dir-rtl') || block.dir === 'rtl' ? 'rtl' : 'ltr';
+      // Questions carry their own lang; totals and titles take the document's
+      const locale = getLocale(block.closest<HTMLElement>('[lang]')?.lang);
+      const forceBreak = block.classList.contains('pdf-page-break');
+      const canvas = await renderElement(block);
+      const heightMm = canvasHeightMm(canvas);
+
+      // Avoid splitting a question: move it to a fresh page when it does not fit
+      if (pages.length === 0 || forceBreak || (cursorY > bodyTop && cursorY + heightMm > bodyBottom)) {
+        startPage(dir, locale);
+      }
+
+      if (heightMm <= bodyBottom - cursorY) {
+        pdf.addImage(canvas, 'JPEG', MARGIN_MM, cursorY, CONTENT_WIDTH_MM, heightMm, undefined, 'FAST');
+        cursorY += heightMm + GAP_MM;
+      } else {
+        // Taller than a page: slice it across as many pages as needed
+        const sliceHeightPx = Math.floor(((bodyBottom - bodyTop) / CONTENT_WIDTH_MM) * canvas.width);
+        for (let offset = 0; offset < canvas.height; offset += sliceHeightPx) {
+          if (offset > 0) startPage(dir, locale);
+          const slice = document.createElement('canvas');
+          slice.width = canvas.width;
+          slice.height = Math.min(sliceHeightPx, canvas.height - offset);
+          slice.getContext('2d')?.drawImage(canvas, 0, -offset);
+          const sliceMm = canvasHeightMm(slice);
+          pdf.addImage(slice, 'JPEG', MARGIN_MM, cursorY, CONTENT_WIDTH_MM, sliceMm, undefined, 'FAST');
+          cursorY += sliceMm + GAP_MM;
+        }
+      }
+      onProgress?.(index + 1, blocks.length, 'pages');
+    }
+
+    if (pages.length === 0) startPage('ltr', getLocale(doc.documentElement.lang));
+
+    // Header and "page X of Y" are drawn last, mirrored for right-to-left pages
+    for (const [index, page] of pages.entries()) {
+      pdf.setPage(index + 1);
+      if (!headerCanvases.has(page.dir)) {
+        headerCanvases.set(page.dir, await renderHeader(doc, header, page.dir));
+      }
+      const headerCanvas = headerCanvases.get(page.dir);
+      if (headerCanvas) {
+        pdf.addImage(headerCanvas, 'PNG', MARGIN_MM, MARGIN_MM, CONTENT_WIDTH_MM, Math.min(canvasHeightMm(headerCanvas), HEADER_HEIGHT_MM - 2));
+      }
+      const footerCanvas = await renderFooter(doc, index + 1, pages.length, page.dir, page.locale);
+      pdf.addImage(footerCanvas, 'PNG', MARGIN_MM, bodyBottom + 2, CONTENT_WIDTH_MM, Math.min(canvasHeightMm(footerCanvas), FOOTER_HEIGHT_MM - 2));
+    }
+
+    return {
+      blob: pdf.output('blob'),
+      successCount: questions.length,
+      failedIds,
+      failedImagePaths,
+      validationIssues,
+      report,
+      fileName: 'Questions_Export.pdf',
+      sanitizerRemovals: uniqueRemovals(removals),
+      mathErrors: uniqueMathErrors(mathErrors),
+    };
+  } finally {
+    iframe.remove();
+  }
+}
@@ -0,0 +1,134 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { generateExportQTI } from './qtiExporter';
+import type { QuestionJSON, QuestionPart } from './questionTypes';
+import { createMemorySource, makeQuestion } from '../test/fixtures';
+
+async function exportQTI(questions: QuestionJSON[]) {
+    const result = await generateExportQTI(questions.map((q) => q.question_id), undefined, {
+        source: createMemorySource(questions),
+        retry: { retries: 0 },
+    });
+    const zip = await JSZip.loadAsync(await result.blob.arrayBuffer());
+    const item = (questionId: string) => zip.file(`Q_${questionId}.xml`)?.async('string') ?? Promise.resolve(null);
+    return { result, zip, item };
+}
+
+describe('QTI export', () => {
+    it('maps single and multiple choice to choiceInteraction', async () => {
+        const choices = [{ label: 'a', value: 'One', is_correct: true }, { label: 'b', value: 'Two' }, { label: 'c', value: 'Three', is_correct: true }];
+        const { item } = await exportQTI([
+            makeQuestion('mcq', [{ n: 1, type: 'mcq', stem: '<p>Pick</p>', choices: choices.slice(0, 2) }]),
+            makeQuestion('mrq', [{ n: 1, type: 'mrq', stem: '<p>Pick all</p>', choices }]),
+        ]);
+        const mcq = await item('mcq');
+        expect(mcq).toContain('cardinality="single" baseType="identifier"');
+        expect(mcq).toContain('<choiceInteraction responseIdentifier="RESPONSE_1" shuffle="false" maxChoices="1">');
+        expect(mcq).toContain('<prompt>Pick</prompt>');
+        expect(mcq).toContain('<simpleChoice identifier="C2">Two</simpleChoice>');
+        const mrq = await item('mrq');
+        expect(mrq).toContain('cardinality="multiple" baseType="identifier"');
+        expect(mrq).toContain('maxChoices="0"');
+        expect(mrq).toMatch(/<correctResponse>\s*<value>C1<\/value>\s*<value>C3<\/value>\s*<\/correctResponse>/);
+    });
+
+    it('maps ordering, matching and gaps', async () => {
+        const { item } = await exportQTI([
+            makeQuestion('order', [{
+                n: 1,
+                type: 'ordering',
+                stem: '<p>Sort</p>',
+                direction: 'horizontal',
+                items: [{ value: 'b', display_order: 2 }, { value: 'a', display_order: 1 }],
+                correct_answer: ['b', 'a'],
+            }]),
+            makeQuestion('match', [{
+                n: 1,
+                type: 'matching',
+                stem: '<p>Match</p>',
+                items: { A: [{ value: '1', label: 'a' }, { value: '2', label: 'b' }], B: [{ value: 'one', label: 'a' }, { value: 'two', label: 'b' }] },
+                correct_answer: [{ A: '1', B: 'one' }, { A: '2', B: 'two' }],
+            }]),
+            makeQuestion('gap', [{
+                n: 1,
+                type: 'gap',
+                stem: '<p>A <span data-node-type="blank-line"></span> B <span data-node-type="blank-line"></span></p>',
+                gap_keys: [{ value: 'y', display_order: 1, correct_order: 2 }, { value: 'x', display_order: 2, correct_order: 1 }],
+            }]),
+        ]);
+        const order = await item('order');
+        expect(order).toContain('cardinality="ordered"');
+        expect(order).toContain('orientation="horizontal"');
+        expect(order).toMatch(/<value>O2<\/value>\s*<value>O1<\/value>/);
+        const match = await item('match');
+        expect(match).toContain('baseType="directedPair"');
+        expect(match).toMatch(/<value>A1 B1<\/value>\s*<value>A2 B2<\/value>/);
+        expect(match).toContain('maxAssociations="2"');
+        const gap = await item('gap');
+        expect(gap).toContain('<gapMatchInteraction responseIdentifier="RESPONSE_1" shuffle="false">');
+        expect(gap).toContain('<p>A <gap identifier="G1"/> B <gap identifier="G2"/></p>');
+        expect(gap).toMatch(/<value>T1 G2<\/value>\s*<value>T2 G1<\/value>/);
+    });
+
+    it('maps text answers to textEntryInteraction and free response to extendedTextInteraction', async () => {
+        const { item } = await exportQTI([
+            makeQuestion('text', [
+                { n: 1, type: 'input', stem: '<p>Length?</p>', correct_answer: { value: 12, unit: 'cm' } },
+                { n: 2, type: 'string', stem: '<p>City?</p>', acceptable_answers: ['<p>Cairo</p>', 'cairo city'] },
+                { n: 3, type: 'frq', stem: '<p>Explain.</p>', acceptable_answers: [] },
+            ]),
+        ]);
+        const xml = await item('text');
+        expect(xml).toContain('<p><textEntryInteraction responseIdentifier="RESPONSE_1" expectedLength="10"/> cm</p>');
+        expect(xml).toContain('<mapEntry mapKey="12" mappedValue="1" caseSensitive="false"/>');
+        expect(xml).toContain('<mapEntry mapKey="Cairo" mappedValue="1" caseSensitive="false"/>');
+        expect(xml).toContain('<mapEntry mapKey="cairo city" mappedValue="1" caseSensitive="false"/>');
+        expect(xml).toContain('<extendedTextInteraction responseIdentifier="RESPONSE_3" expectedLines="5">');
+        expect(xml).toContain('<responseDeclaration identifier="RESPONSE_3" cardinality="single" baseType="string"/>');
+    });
+
+    it('reports parts without an interaction and keeps their stem', async () => {
+        const { result, item, zip } = await exportQTI([
+            makeQuestion('mixed', [
+                { n: 1, type: 'counting', stem: '<p>Count them</p>', correct_answer: 3 },
+                { n: 2, type: 'mcq', stem: '<p>Pick</p>', choices: [{ label: 'a', value: 'One', is_correct: true }] },
+            ]),
+        ]);
+        expect(result.unmappedParts).toEqual([
+            { questionId: 'mixed', partNumber: 1, type: 'counting', reason: 'No QTI interaction for type "counting"' },
+        ]);
+        expect(await item('mixed')).toContain('<p>Count them</p>');
+        expect(await zip.file('imsmanifest.xml')!.async('string')).toContain('href="Q_mixed.xml"');
+    });
+
+    it('reports questions without any QTI interaction as failed', async () => {
+        const { result, item } = await exportQTI([
+            makeQuestion('counting', [{ n: 1, type: 'counting', stem: '<p>Count them</p>', correct_answer: 3 }]),
+            makeQuestion('mcq', [{ n: 1, type: 'mcq', stem: '<p>Pick</p>', choices: [{ label: 'a', value: 'One', is_correct: true }] }]),
+        ]);
+        expect(await item('counting')).toBeNull();
+        expect(result.successCount).toBe(1);
+        expect(result.failedIds).toEqual(['counting']);
+        expect(result.report.failedCount).toBe(1);
+        expect(result.report.questions[0]).toMatchObject({
+            questionId: 'counting',
+            status: 'failed',
+            error: 'No part maps to a QTI interaction',
+        });
+    });
+
+    it('numbers response identifiers by position, whatever the parts are numbered', async () => {
+        const choices = [{ label: 'a', value: 'One', is_correct: true }];
+        const { item } = await exportQTI([
+            makeQuestion('numbering', [
+                { n: 2, type: 'mcq', stem: '<p>First</p>', choices },
+                { n: 2, type: 'mcq', stem: '<p>Second</p>', choices },
+                { type: 'mcq', stem: '<p>Third</p>', choices } as unknown as QuestionPart,
+            ]),
+        ]);
+        const xml = await item('numbering');
+        expect([...xml!.matchAll(/<responseDeclaration identifier="([^"]+)"/g)].map((match) => match[1]))
+            .toEqual(['RESPONSE_1', 'RESPONSE_2', 'RESPONSE_3']);
+        expect(xml).not.toContain('RESPONSE_undefined');
+    });
+});
@@ -0,0 +1,554 @@
+import JSZip from 'jszip';
+import {
+  isKnownPart,
+  type ChoicePart,
+  type GapPart,
+  type InputPart,
+  type MatchingPart,
+  type OrderingPart,
+  type QuestionJSON,
+  type QuestionPart,
+  type TextPart,
+} from './questionTypes';
+import { createHttpSource, type QuestionSource } from './questionSource';
+import { addImagesToZip, fetchQuestions, type FetchOptions, type ProgressCallback, type UnmappedPart } from './exportPipeline';
+import { rewriteImagePaths, rewriteQuestionAssets } from './htmlTransform';
+import { replaceMathFields } from './mathMarkup';
+import type { ExportResult } from './htmlExporter';
+import { addReportToZip, buildExportReport } from './exportReport';
+import { sanitizeQuestionHtml, uniqueRemovals, type SanitizerRemoval } from './htmlSanitizer';
+import { getLocale } from './locales';
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd';
+const CP_NS = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const CP_SCHEMA = 'http://www.imsglobal.org/xsd/imscp_v1p1.xsd';
+
+export interface QtiExportResult extends ExportResult {
+  unmappedParts: UnmappedPart[];
+}
+
+export interface QtiExportOptions extends FetchOptions {
+  source?: QuestionSource;
+}
+
+// ─── XML helpers ──────────────────────────────────
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: '&#160;',
+  ndash: '&#8211;',
+  mdash: '&#8212;',
+  times: '&#215;',
+  divide: '&#247;',
+  minus: '&#8722;',
+  deg: '&#176;',
+  hellip: '&#8230;',
+  lsquo: '&#8216;',
+  rsquo: '&#8217;',
+  ldquo: '&#8220;',
+  rdquo: '&#8221;',
+};
+const XML_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'apos']);
+
+// The XHTML subset QTI 2.1 allows in an itemBody, and the attributes each element may
+// carry besides class, xml:lang and label. id is dropped: it must be unique in the item.
+const QTI_ELEMENTS: Record<string, string[]> = {
+  a: ['href', 'type'], abbr: [], acronym: [], address: [], b: [], big: [], blockquote: ['cite'], br: [],
+  caption: [], cite: [], code: [], col: ['span'], colgroup: ['span'], dd: [], dfn: [], div: [], dl: [], dt: [],
+  em: [], gap: ['identifier'], h1: [], h2: [], h3: [], h4: [], h5: [], h6: [], hr: [], i: [],
+  img: ['src', 'alt', 'longdesc', 'height', 'width'], kbd: [], li: [], ol: [], p: [], pre: [], q: ['cite'],
+  samp: [], small: [], span: [], strong: [], sub: [], sup: [], table: ['summary'], tbody: [],
+  td: ['headers', 'scope', 'abbr', 'axis', 'rowspan', 'colspan'], tfoot: [],
+  th: ['headers', 'scope', 'abbr', 'axis', 'rowspan', 'colspan'], thead: [], tr: [], tt: [], ul: [], var: [],
+};
+const COMMON_ATTRIBUTES = new Set(['class', 'xml:lang', 'label']);
+// Lexical formatting QTI has no element for keeps its text; other unknown elements are unwrapped
+const RENAMED_ELEMENTS: Record<string, string> = { u: 'span', s: 'span', strike: 'span', mark: 'span', figure: 'div', figcaption: 'div' };
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col']);
+const BLOCK_TAG_REGEX = /<(?:address|blockquote|div|dl|h[1-6]|hr|ol|p|pre|table|ul)\b/i;
+const TAG_REGEX = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*"[^"]*")?)*)\s*(\/?)>/g;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*"([^"]*)")?/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// HTML entities XML does not define become character references; bare ampersands are escaped
+function toXmlEntities(html: string): string {
+  return html
+    .replace(/&([a-zA-Z][a-zA-Z0-9]*);/g, (match, name: string) =>
+      XML_ENTITIES.has(name) ? match : NAMED_ENTITIES[name] ?? `&amp;${name};`)
+    .replace(/&(?![a-zA-Z][a-zA-Z0-9]*;|#\d+;|#x[0-9a-fA-F]+;)/g, '&amp;');
+}
+
+// QTI lengths are pixels or percentages; "120px" becomes "120", anything else is dropped
+function toQtiLength(value: string): string | null {
+  const match = /^(\d+(?:\.\d+)?)(px|%)?$/i.exec(value.trim());
+  return match ? match[1] + (match[2] === '%' ? '%' : '') : null;
+}
+
+function toQtiTag(_tag: string, closing: string, name: string, attrs: string, selfClosing: string): string {
+  const lower = name.toLowerCase();
+  const element = lower in QTI_ELEMENTS ? lower : RENAMED_ELEMENTS[lower];
+  if (!element) return '';
+  if (closing) return VOID_ELEMENTS.has(element) ? '' : `</${element}>`;
+
+  let kept = '';
+  for (const [, attrName, rawValue = ''] of attrs.matchAll(ATTRIBUTE_REGEX)) {
+    const attribute = attrName.toLowerCase() === 'lang' ? 'xml:lang' : attrName.toLowerCase();
+    if (!COMMON_ATTRIBUTES.has(attribute) && !QTI_ELEMENTS[element].includes(attribute)) continue;
+    const value = attribute === 'width' || attribute === 'height' ? toQtiLength(rawValue) : rawValue;
+    if (value === null) continue;
+    kept += ` ${attribute}="${value.replace(/</g, '&lt;')}"`;
+  }
+  if (element === 'img' && !/\salt="/.test(kept)) kept += ' alt=""';
+  return `<${element}${kept}${VOID_ELEMENTS.has(element) || selfClosing ? '/' : ''}>`;
+}
+
+// Lexical HTML is neither well-formed XML nor limited to what QTI allows: math fields
+// become TeX, elements and attributes outside QTI's XHTML subset are dropped (style,
+// dir and srcset included) and void elements are closed.
+function toXhtml(html: string): string {
+  const withTex = replaceMathFields(html, ({ latex, isBlock }) => escapeXml(isBlock ? `\\[${latex}\\]` : `\\(${latex}\\)`));
+  return toXmlEntities(withTex.replace(TAG_REGEX, toQtiTag));
+}
+
+function toBlock(html: string): string {
+  const xhtml = toXhtml(html).trim();
+  if (!xhtml) return '';
+  return /^<(p|div|table|ul|ol|h[1-6])\b/i.test(xhtml) ? xhtml : `<p>${xhtml}</p>`;
+}
+
+function toInline(html: string): string {
+  // simpleChoice and friends take flow content, but unwrap the lone paragraph Lexical adds
+  const xhtml = toXhtml(html).trim();
+  const single = /^<p\b[^>]*>([\s\S]*)<\/p>$/i.exec(xhtml);
+  return single && !/<p\b/i.test(single[1]) ? single[1] : xhtml;
+}
+
+// A QTI 2.1 <prompt> takes inline content only; a stem with paragraphs, lists or tables
+// goes before the interaction instead
+function placeStem(stemXhtml: string): { lead: string; prompt: string } {
+  const inline = toInline(stemXhtml);
+  if (!inline) return { lead: '', prompt: '' };
+  return BLOCK_TAG_REGEX.test(inline)
+    ? { lead: `      ${toBlock(stemXhtml)}\n`, prompt: '' }
+    : { lead: '', prompt: `        <prompt>${inline}</prompt>\n` };
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+// ─── Part mapping ─────────────────────────────────
+
+interface MappedPart {
+  responseDeclaration: string;
+  body: string;
+  // Omitted for parts that cannot be scored automatically (extended text)
+  scoring?: string;
+}
+
+function matchCorrectScoring(responseId: string): string {
+  return `    <responseCondition>
+      <responseIf>
+        <match>
+          <variable identifier="${responseId}"/>
+          <correct identifier="${responseId}"/>
+        </match>
+        <setOutcomeValue identifier="SCORE">
+          <sum><variable identifier="SCORE"/><baseValue baseType="float">1</baseValue></sum>
+        </setOutcomeValue>
+      </responseIf>
+    </responseCondition>`;
+}
+
+function mapResponseScoring(responseId: string): string {
+  return `    <setOutcomeValue identifier="SCORE">
+      <sum><variable identifier="SCORE"/><mapResponse identifier="${responseId}"/></sum>
+    </setOutcomeValue>`;
+}
+
+function correctResponse(values: string[]): string {
+  return `    <correctResponse>
+${values.map((value) => `      <value>${escapeXml(value)}</value>`).join('\n')}
+    </correctResponse>`;
+}
+
+function mapChoice(part: ChoicePart, responseId: string, stemXhtml: string): MappedPart | string {
+  const choices = part.choices;
+  if (choices.length === 0) return 'No choices';
+  const correct = choices.map((choice, index) => (choice.is_correct ? `C${index + 1}` : null)).filter((id): id is string => !!id);
+  if (correct.length === 0) return 'No correct choice';
+
+  const multiple = part.type === 'mrq';
+  const { lead, prompt } = placeStem(stemXhtml);
+  const simpleChoices = choices
+    .map((choice, index) => `        <simpleChoice identifier="C${index + 1}">${toInline(choice.value)}</simpleChoice>`)
+    .join('\n');
+
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">
+${correctResponse(correct)}
+  </responseDeclaration>`,
+    body: `${lead}      <choiceInteraction responseIdentifier="${responseId}" shuffle="false" maxChoices="${multiple ? 0 : 1}">
+${prompt}${simpleChoices}
+      </choiceInteraction>`,
+    scoring: matchCorrectScoring(responseId),
+  };
+}
+
+function mapOrdering(part: OrderingPart, responseId: string, stemXhtml: string): MappedPart | string {
+  const items = part.items;
+  const correctOrder = part.correct_answer;
+  if (items.length === 0 || correctOrder.length !== items.length) return 'Ordering items do not match correct_answer';
+
+  const sorted = [...items].sort((a, b) => a.display_order - b.display_order);
+  const idByValue = new Map(sorted.map((item, index) => [item.value, `O${index + 1}`]));
+  const correct = correctOrder.map((value) => idByValue.get(value));
+  if (correct.some((id) => !id)) return 'Ordering correct_answer references unknown items';
+
+  const orientation = part.direction === 'horizontal' ? ' orientation="horizontal"' : '';
+  const { lead, prompt } = placeStem(stemXhtml);
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="ordered" baseType="identifier">
+${correctResponse(correct as string[])}
+  </responseDeclaration>`,
+    body: `${lead}      <orderInteraction responseIdentifier="${responseId}" shuffle="false"${orientation}>
+${prompt}${sorted.map((item, index) => `        <simpleChoice identifier="O${index + 1}">${toInline(item.value)}</simpleChoice>`).join('\n')}
+      </orderInteraction>`,
+    scoring: matchCorrectScoring(responseId),
+  };
+}
+
+function mapMatching(part: MatchingPart, responseId: string, stemXhtml: string): MappedPart | string {
+  const items = part.items;
+  if (!items) return 'Matching items are missing';
+
+  const idA = new Map(items.A.map((item, index) => [item.value, `A${index + 1}`]));
+  const idB = new Map(items.B.map((item, index) => [item.value, `B${index + 1}`]));
+  const idBByLabel = new Map(items.B.map((item, index) => [item.label, `B${index + 1}`]));
+
+  const pairs = part.correct_answer
+    ? part.correct_answer.map((pair) => [idA.get(pair.A), idB.get(pair.B)])
+    : items.A.map((item, index) => [`A${index + 1}`, item.matches ? idBByLabel.get(item.matches) : undefined]);
+  if (pairs.length === 0 || pairs.some(([a, b]) => !a || !b)) return 'Matching pairs reference unknown items';
+
+  const matchSet = (group: { value: string }[], prefix: string) =>
+    `        <simpleMatchSet>
+${group.map((item, index) => `          <simpleAssociableChoice identifier="${prefix}${index + 1}" matchMax="1">${toInline(item.value)}</simpleAssociableChoice>`).join('\n')}
+        </simpleMatchSet>`;
+  const { lead, prompt } = placeStem(stemXhtml);
+
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="multiple" baseType="directedPair">
+${correctResponse(pairs.map(([a, b]) => `${a} ${b}`))}
+  </responseDeclaration>`,
+    body: `${lead}      <matchInteraction responseIdentifier="${responseId}" shuffle="false" maxAssociations="${items.A.length}">
+${prompt}${matchSet(items.A, 'A')}
+${matchSet(items.B, 'B')}
+      </matchInteraction>`,
+    scoring: matchCorrectScoring(responseId),
+  };
+}
+
+const GAP_SPAN_REGEX = /<span\b[^>]*data-node-type=["']blank-line["'][^>]*>[\s\S]*?<\/span>/gi;
+
+// The stem itself becomes the interaction content, with each blank turned into a <gap>
+function mapGap(part: GapPart, responseId: string): MappedPart | string {
+  const gapKeys = part.gap_keys;
+  if (gapKeys.length === 0) return 'No gap keys';
+
+  let gapCount = 0;
+  const stemWithGaps = part.stem.replace(GAP_SPAN_REGEX, () => {
+    gapCount += 1;
+    return `<gap identifier="G${gapCount}"/>`;
+  });
+  if (gapCount !== gapKeys.length) return `Stem has ${gapCount} blanks but ${gapKeys.length} gap keys`;
+
+  const sorted = [...gapKeys].sort((a, b) => a.display_order - b.display_order);
+  const gapTexts = sorted
+    .map((key, index) => `        <gapText identifier="T${index + 1}" matchMax="1">${escapeXml(stripTags(key.value))}</gapText>`)
+    .join('\n');
+  const correct = sorted.map((key, index) => `T${index + 1} G${key.correct_order}`);
+
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="multiple" baseType="directedPair">
+${correctResponse(correct)}
+  </responseDeclaration>`,
+    body: `      <gapMatchInteraction responseIdentifier="${responseId}" shuffle="false">
+${gapTexts}
+        ${toBlock(stemWithGaps)}
+      </gapMatchInteraction>`,
+    scoring: matchCorrectScoring(responseId),
+  };
+}
+
+function mapTextEntry(part: InputPart | TextPart, responseId: string, stemXhtml: string): MappedPart | string {
+  let answers: string[];
+  let unit = '';
+  if (part.type === 'input') {
+    const ca = part.correct_answer;
+    if (!ca) return 'No correct_answer value';
+    answers = [String(ca.value)];
+    unit = ca.unit || '';
+  } else {
+    answers = part.acceptable_answers.map(stripTags).filter(Boolean);
+    if (answers.length === 0) return 'No acceptable answers';
+  }
+
+  const mapEntries = answers
+    .map((answer) => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`)
+    .join('\n');
+
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="single" baseType="string">
+${correctResponse([answers[0]])}
+    <mapping defaultValue="0" lowerBound="0" upperBound="1">
+${mapEntries}
+    </mapping>
+  </responseDeclaration>`,
+    body: `      ${toBlock(stemXhtml)}
+      <p><textEntryInteraction responseIdentifier="${responseId}" expectedLength="${Math.max(10, answers[0].length + 2)}"/>${unit ? ` ${escapeXml(unit)}` : ''}</p>`,
+    scoring: mapResponseScoring(responseId),
+  };
+}
+
+function mapExtendedText(responseId: string, stemXhtml: string): MappedPart {
+  const { lead, prompt } = placeStem(stemXhtml);
+  return {
+    responseDeclaration: `  <responseDeclaration identifier="${responseId}" cardinality="single" baseType="string"/>`,
+    body: `${lead}      <extendedTextInteraction responseIdentifier="${responseId}" expectedLines="5">
+${prompt}      </extendedTextInteraction>`,
+  };
+}
+
+function mapPart(part: QuestionPart, responseId: string, stemXhtml: string): MappedPart | string {
+  if (!isKnownPart(part)) return `No QTI interaction for type "${part.type}"`;
+  switch (part.type) {
+    case 'mcq':
+    case 'mrq': return mapChoice(part, responseId, stemXhtml);
+    case 'ordering': return mapOrdering(part, responseId, stemXhtml);
+    case 'matching': return mapMatching(part, responseId, stemXhtml);
+    case 'gap': return mapGap(part, responseId);
+    case 'input':
+    case 'string': return mapTextEntry(part, responseId, stemXhtml);
+    case 'frq': return mapExtendedText(responseId, stemXhtml);
+    default: return `No QTI interaction for type "${part.type}"`;
+  }
+}
+
+// ─── Drawings ─────────────────────────────────────
+
+const SVG_REGEX = /<svg\b([^>]*)>[\s\S]*?<\/svg>/gi;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+function readAttribute(attrs: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, 'i').exec(attrs);
+  return match ? match[1] : null;
+}
+
+// A standalone SVG document: namespaces declared, and the images/… references it shares
+// with the item made relative to images/{questionId}/, where the file is written
+function toSvgFile(markup: string): string {
+  const svg = toXmlEntities(markup)
+    .replace(/(\s(?:xlink:)?href=")images\//g, '$1../../images/')
+    .replace(/^<svg\b([^>]*)>/i, (tag, attrs: string) => {
+      const xmlns = readAttribute(attrs, 'xmlns') === null ? ` xmlns="${SVG_NS}"` : '';
+      const xlink = markup.includes('xlink:') && readAttribute(attrs, 'xmlns:xlink') === null ? ` xmlns:xlink="${XLINK_NS}"` : '';
+      return `<svg${attrs}${xmlns}${xlink}>`;
+    });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${svg}\n`;
+}
+
+// QTI 2.1 has no inline SVG: each drawing in the part becomes a file next to the question's
+// images, shown through an <img>. drawings receives the new files' paths and content.
+function extractDrawings<T>(value: T, questionId: string, partNumber: number, drawings: Map<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(SVG_REGEX, (markup, attrs: string) => {
+      const drawingPath = `images/${questionId}/part${partNumber}-drawing${drawings.size + 1}.svg`;
+      drawings.set(drawingPath, toSvgFile(markup));
+      const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(markup);
+      const alt = readAttribute(attrs, 'aria-label') ?? (title ? stripTags(title[1]).replace(/"/g, '&quot;') : '');
+      const size = ['width', 'height']
+        .map((name) => {
+          const length = readAttribute(attrs, name);
+          return length === null ? '' : ` ${name}="${length}"`;
+        })
+        .join('');
+      return `<img src="${drawingPath}" alt="${alt}"${size}>`;
+    }) as T;
+  }
+  if (Array.isArray(value)) return value.map((item) => extractDrawings(item, questionId, partNumber, drawings)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, extractDrawings(child, questionId, partNumber, drawings)])
+    ) as T;
+  }
+  return value;
+}
+
+// ─── Item / manifest generation ───────────────────
+
+function itemIdentifier(questionId: string): string {
+  return `Q_${questionId.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function itemFileName(questionId: string): string {
+  return `${itemIdentifier(questionId)}.xml`;
+}
+
+// Every HTML string of a part is sanitized, then its image references (stems, choices,
+// items) point into images/{questionId}/; assets receives the ones the item actually shows
+// and drawings the SVG files it writes for inline drawings
+function generateAssessmentItem(
+  question: QuestionJSON,
+  unmappedParts: UnmappedPart[],
+  assets: Set<string>,
+  drawings: Map<string, string>,
+  removals: SanitizerRemoval[]
+): string | null {
+  const qId = question.question_id;
+  const declarations: string[] = [];
+  const bodies: string[] = [];
+  const scoring: string[] = [];
+
+  // Identifiers and file names follow the part's position: authored n values may repeat or be missing
+  for (const [index, rawPart] of question.content.parts.entries()) {
+    const partAssets = new Set<string>();
+    const cleanPart = sanitizeQuestionHtml(rawPart, qId, rawPart.n, removals);
+    const partDrawings = new Map<string, string>();
+    const part = extractDrawings(rewriteQuestionAssets(cleanPart, qId, partAssets), qId, index + 1, partDrawings);
+    const responseId = `RESPONSE_${index + 1}`;
+    const stemXhtml = toXhtml(part.stem);
+    const mapped = mapPart(part, responseId, stemXhtml);
+
+    if (typeof mapped === 'string') {
+      unmappedParts.push({ questionId: qId, partNumber: part.n, type: part.type, reason: mapped });
+      // Keep the stem so the item still reads correctly around the missing interaction
+      bodies.push(`      ${toBlock(stemXhtml)}`);
+      rewriteImagePaths(cleanPart.stem, qId, assets);
+      partDrawings.forEach((svg, drawingPath) => {
+        if (part.stem.includes(drawingPath)) drawings.set(drawingPath, svg);
+      });
+      continue;
+    }
+
+    partAssets.forEach((assetPath) => assets.add(assetPath));
+    partDrawings.forEach((svg, drawingPath) => drawings.set(drawingPath, svg));
+    declarations.push(mapped.responseDeclaration);
+    bodies.push(mapped.body);
+    if (mapped.scoring) scoring.push(mapped.scoring);
+  }
+
+  if (declarations.length === 0) {
+    return null;
+  }
+
+  // QTI 2.1 has no dir attribute; players take the direction from xml:lang
+  const lang = question.language_code || 'en';
+  const locale = getLocale(lang);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="${QTI_NS} ${QTI_SCHEMA}"
+  identifier="${itemIdentifier(qId)}" title="${escapeXml(locale.labels.question)} ${escapeXml(qId)}" adaptive="false" timeDependent="false" xml:lang="${escapeXml(lang)}">
+${declarations.join('\n')}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <itemBody>
+    <div>
+${bodies.join('\n')}
+    </div>
+  </itemBody>
+  <responseProcessing>
+${scoring.join('\n')}
+  </responseProcessing>
+</assessmentItem>
+`;
+}
+
+function generateManifest(items: { questionId: string; imagePaths: string[] }[]): string {
+  const resources = items.map(({ questionId, imagePaths }) => {
+    const files = [itemFileName(questionId), ...imagePaths]
+      .map((href) => `      <file href="${escapeXml(href)}"/>`)
+      .join('\n');
+    return `    <resource identifier="RES_${itemIdentifier(questionId)}" type="imsqti_item_xmlv2p1" href="${escapeXml(itemFileName(questionId))}">
+${files}
+    </resource>`;
+  }).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="${CP_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="${CP_NS} ${CP_SCHEMA}"
+  identifier="MANIFEST_QUESTIONS_EXPORT">
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+}
+
+// ─── Public API ───────────────────────────────────
+
+export async function generateExportQTI(
+  questionIds: string[],
+  onProgress?: ProgressCallback,
+  options: QtiExportOptions = {}
+): Promise<QtiExportResult> {
+  const source = options.source ?? createHttpSource();
+  const { questions, failedIds, validationIssues, questionOutcomes } = await fetchQuestions(questionIds, source, onProgress, options);
+
+  const zip = new JSZip();
+  const unmappedParts: UnmappedPart[] = [];
+  const manifestItems: { questionId: string; imagePaths: string[]; drawingPaths: string[] }[] = [];
+  const removals: SanitizerRemoval[] = [];
+  // Questions none of whose parts has a QTI interaction get no item
+  const omittedQuestions = new Map<string, string>();
+  let successCount = 0;
+
+  for (const question of questions) {
+    const assets = new Set<string>();
+    const drawings = new Map<string, string>();
+    const xml = generateAssessmentItem(question, unmappedParts, assets, drawings, removals);
+    if (!xml) {
+      omittedQuestions.set(question.question_id, 'No part maps to a QTI interaction');
+      continue;
+    }
+    zip.file(itemFileName(question.question_id), xml);
+    drawings.forEach((svg, drawingPath) => zip.file(drawingPath, svg));
+    manifestItems.push({ questionId: question.question_id, imagePaths: [...assets], drawingPaths: [...drawings.keys()] });
+    successCount += 1;
+  }
+
+  const imagePaths = [...new Set(manifestItems.flatMap((item) => item.imagePaths))];
+  const { failedImagePaths, imageOutcomes } = await addImagesToZip(zip, imagePaths, source, onProgress, options);
+  const report = buildExportReport({ format: 'qti', questionIds, questions, questionOutcomes, imageOutcomes, validationIssues, omittedQuestions });
+  addReportToZip(zip, report);
+
+  // Only list files that actually made it into the package
+  const failedImageSet = new Set(failedImagePaths);
+  zip.file('imsmanifest.xml', generateManifest(manifestItems.map((item) => ({
+    questionId: item.questionId,
+    imagePaths: [...item.imagePaths.filter((imgPath) => !failedImageSet.has(imgPath)), ...item.drawingPaths],
+  }))));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+
+  return {
+    blob,
+    successCount,
+    failedIds: [...failedIds, ...omittedQuestions.keys()],
+    failedImagePaths,
+    validationIssues,
+    report,
+    unmappedParts,
+    sanitizerRemovals: uniqueRemovals(removals),
+  };
+}
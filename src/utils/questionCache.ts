@@ -0,0 +1,238 @@
+import { DEFAULT_QUESTIONS_BASE_URL, QuestionSourceError, createHttpSource, type QuestionSource } from './questionSource';
+
+// Persistent IndexedDB cache for the HTTP source. Every question JSON and image
+// is stored by URL together with its validators; later reads are revalidated
+// with If-None-Match / If-Modified-Since so an unchanged file costs a 304 instead
+// of a download. Both the preview and the exporters read through it.
+
+const DB_NAME = 'question-renderer-cache';
+const DB_VERSION = 1;
+// Metadata and bodies live apart so eviction and the stats panel never load image data
+const META_STORE = 'responses';
+const BODY_STORE = 'bodies';
+const LAST_USED_INDEX = 'lastUsed';
+
+export const DEFAULT_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+interface CacheEntry {
+    url: string;
+    questionId: string;
+    contentType: string | null;
+    etag: string | null;
+    lastModified: string | null;
+    size: number;
+    lastUsed: number;
+}
+
+export interface CachedQuestionStats {
+    questionId: string;
+    files: number;
+    bytes: number;
+    lastUsed: number;
+}
+
+export interface CacheStats {
+    totalBytes: number;
+    maxBytes: number;
+    questions: CachedQuestionStats[];
+}
+
+export interface QuestionCache {
+    // Drop-in replacement for fetch, suitable for createHttpSource
+    fetch: typeof fetch;
+    // When offline, requests are answered from the cache only and never hit the network
+    isOffline: () => boolean;
+    setOffline: (offline: boolean) => void;
+    getStats: () => Promise<CacheStats>;
+    clear: () => Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const meta = request.result.createObjectStore(META_STORE, { keyPath: 'url' });
+        meta.createIndex(LAST_USED_INDEX, 'lastUsed');
+        request.result.createObjectStore(BODY_STORE);
+    };
+    return requestToPromise(request);
+}
+
+// {base}/{questionId}/{file} → questionId, so the panel can group files per question
+function questionIdFromUrl(url: string): string {
+    const segments = new URL(url, 'http://localhost').pathname.split('/').filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 2] ?? '');
+}
+
+function toResponse(entry: CacheEntry, body: ArrayBuffer): Response {
+    const headers = new Headers();
+    if (entry.contentType) headers.set('Content-Type', entry.contentType);
+    return new Response(body, { status: 200, headers });
+}
+
+export function createQuestionCache(
+    maxBytes: number = DEFAULT_CACHE_MAX_BYTES,
+    fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): QuestionCache {
+    let offline = false;
+    let database: Promise<IDBDatabase | null> | null = null;
+
+    // Private browsing and some embedded browsers have no usable IndexedDB;
+    // the cache then silently passes everything through to the network.
+    const getDatabase = () => {
+        database ??= typeof indexedDB === 'undefined' ? Promise.resolve(null) : openDatabase().catch(() => null);
+        return database;
+    };
+
+    const readEntry = async (db: IDBDatabase, url: string): Promise<CacheEntry | undefined> => {
+        const meta = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+        return requestToPromise(meta.get(url) as IDBRequest<CacheEntry | undefined>);
+    };
+
+    const readBody = async (db: IDBDatabase, url: string): Promise<ArrayBuffer | undefined> => {
+        const bodies = db.transaction(BODY_STORE, 'readonly').objectStore(BODY_STORE);
+        return requestToPromise(bodies.get(url) as IDBRequest<ArrayBuffer | undefined>);
+    };
+
+    const writeEntry = async (db: IDBDatabase, entry: CacheEntry, body?: ArrayBuffer) => {
+        const transaction = db.transaction([META_STORE, BODY_STORE], 'readwrite');
+        transaction.objectStore(META_STORE).put(entry);
+        if (body) transaction.objectStore(BODY_STORE).put(body, entry.url);
+        await transactionDone(transaction);
+    };
+
+    // Serves a cached entry and marks it as recently used; undefined when the body has gone missing
+    const useEntry = async (db: IDBDatabase, entry: CacheEntry): Promise<Response | undefined> => {
+        const body = await readBody(db, entry.url).catch(() => undefined);
+        if (!body) return undefined;
+        await writeEntry(db, { ...entry, lastUsed: Date.now() }).catch(() => undefined);
+        return toResponse(entry, body);
+    };
+
+    // Deletes least recently used entries until the store fits in maxBytes
+    const evict = async (db: IDBDatabase) => {
+        const transaction = db.transaction([META_STORE, BODY_STORE], 'readwrite');
+        const index = transaction.objectStore(META_STORE).index(LAST_USED_INDEX);
+        const entries = (await requestToPromise(index.getAll())) as CacheEntry[];
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries) {
+            if (total <= maxBytes) break;
+            transaction.objectStore(META_STORE).delete(entry.url);
+            transaction.objectStore(BODY_STORE).delete(entry.url);
+            total -= entry.size;
+        }
+        await transactionDone(transaction);
+    };
+
+    const store = async (db: IDBDatabase, url: string, response: Response): Promise<Response> => {
+        const body = await response.arrayBuffer();
+        const entry: CacheEntry = {
+            url,
+            questionId: questionIdFromUrl(url),
+            contentType: response.headers.get('Content-Type'),
+            etag: response.headers.get('ETag'),
+            lastModified: response.headers.get('Last-Modified'),
+            size: body.byteLength,
+            lastUsed: Date.now(),
+        };
+        // Anything larger than the whole budget would only evict everything else
+        if (entry.size <= maxBytes) {
+            try {
+                await writeEntry(db, entry, body);
+                await evict(db);
+            } catch {
+                // Quota errors just mean this response is not cached
+            }
+        }
+        return toResponse(entry, body);
+    };
+
+    const cachedFetch: typeof fetch = async (input, init) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        const db = await getDatabase();
+        const cached = db ? await readEntry(db, url).catch(() => undefined) : undefined;
+
+        if (offline) {
+            const response = cached && db ? await useEntry(db, cached) : undefined;
+            if (!response) throw new QuestionSourceError(`Not available offline: ${url}`);
+            return response;
+        }
+
+        const headers = new Headers(init?.headers);
+        if (cached?.etag) headers.set('If-None-Match', cached.etag);
+        if (cached?.lastModified) headers.set('If-Modified-Since', cached.lastModified);
+        const response = await fetchImpl(input, { ...init, headers });
+
+        if (response.status === 304 && cached && db) {
+            const revalidated = await useEntry(db, cached);
+            if (revalidated) return revalidated;
+            // The body was evicted between the lookup and the 304; fetch it unconditionally
+            const refetched = await fetchImpl(input, init);
+            return refetched.ok ? store(db, url, refetched) : refetched;
+        }
+        if (!response.ok || !db) return response;
+        return store(db, url, response);
+    };
+
+    return {
+        fetch: cachedFetch,
+        isOffline: () => offline,
+        setOffline: (next) => {
+            offline = next;
+        },
+        getStats: async () => {
+            const db = await getDatabase();
+            if (!db) return { totalBytes: 0, maxBytes, questions: [] };
+            const objectStore = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+            const entries = (await requestToPromise(objectStore.getAll())) as CacheEntry[];
+            const byQuestion = new Map<string, CachedQuestionStats>();
+            for (const entry of entries) {
+                const stats = byQuestion.get(entry.questionId) ?? { questionId: entry.questionId, files: 0, bytes: 0, lastUsed: 0 };
+                stats.files += 1;
+                stats.bytes += entry.size;
+                stats.lastUsed = Math.max(stats.lastUsed, entry.lastUsed);
+                byQuestion.set(entry.questionId, stats);
+            }
+            return {
+                totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+                maxBytes,
+                questions: [...byQuestion.values()].sort((a, b) => b.lastUsed - a.lastUsed),
+            };
+        },
+        clear: async () => {
+            const db = await getDatabase();
+            if (!db) return;
+            const transaction = db.transaction([META_STORE, BODY_STORE], 'readwrite');
+            transaction.objectStore(META_STORE).clear();
+            transaction.objectStore(BODY_STORE).clear();
+            await transactionDone(transaction);
+        },
+    };
+}
+
+// One cache for the whole app, so the preview warms it for the exporters
+export const questionCache = createQuestionCache();
+
+// The online source, read through the shared cache. Offline, images are inlined
+// from the cache instead of being loaded by the engine from the network.
+export function createCachedHttpSource(baseUrl: string = DEFAULT_QUESTIONS_BASE_URL): QuestionSource {
+    const source = createHttpSource(baseUrl, questionCache.fetch);
+    return {
+        ...source,
+        assetsBasePath: (questionId) => (questionCache.isOffline() ? null : source.assetsBasePath(questionId)),
+    };
+}
@@ -0,0 +1,67 @@
+import { mapWithConcurrency } from './exportPipeline';
+import { partAnswerText } from './htmlExporter';
+import { getLocale } from './locales';
+import { replaceMathFields } from './mathMarkup';
+import type { QuestionSource } from './questionSource';
+import type { QuestionJSON } from './questionTypes';
+import { validateQuestion } from './questionValidation';
+
+// What the questions grid can be filtered and searched by, read from the question JSON
+export interface QuestionMetadata {
+  languageCode: string;
+  // Distinct part types, in part order
+  partTypes: string[];
+  // Stem text of every part, tags removed and LaTeX kept
+  stemText: string;
+  // Answer of every part as its registered renderer extracts it
+  answerText: string;
+}
+
+// Off-screen cards never fetch their JSON, so metadata is read separately and gently
+const METADATA_FETCH_CONCURRENCY = 4;
+
+function stemToText(html: string): string {
+  return replaceMathFields(html, ({ latex }) => ` ${latex} `)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function extractQuestionMetadata(question: QuestionJSON): QuestionMetadata {
+  const parts = question.content.parts;
+  const locale = getLocale(question.language_code);
+  return {
+    languageCode: question.language_code,
+    partTypes: [...new Set(parts.map((part) => part.type))],
+    stemText: parts.map((part) => stemToText(part.stem)).join(' '),
+    answerText: parts.map((part) => partAnswerText(part, locale)).join(' '),
+  };
+}
+
+// Case-, accent- and harakat-insensitive, so "equation" finds "Équation" and بسم finds بِسْمِ
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// Calls onRead for each ID as its JSON arrives; null when it could not be fetched or read
+export async function readQuestionMetadata(
+  questionIds: string[],
+  source: QuestionSource,
+  onRead: (id: string, metadata: QuestionMetadata | null) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  await mapWithConcurrency(questionIds, METADATA_FETCH_CONCURRENCY, async (id) => {
+    try {
+      const { question } = validateQuestion(await source.getQuestion(id, signal), id);
+      if (!signal?.aborted) onRead(id, question ? extractQuestionMetadata(question) : null);
+    } catch {
+      if (!signal?.aborted) onRead(id, null);
+    }
+  }, signal);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { inlineQuestionAssets } from './questionSource';
+import { createMemorySource, makeQuestion } from '../test/fixtures';
+
+const SVG_URI = `data:image/svg+xml;base64,${btoa('<svg/>')}`;
+
+describe('inlineQuestionAssets', () => {
+    it('inlines every kind of image reference the exporters recognise', async () => {
+        const stem = [
+            `<img src='single.svg'>`,
+            '<img src=bare.svg>',
+            '<img srcset="small.svg 1x, https://example.com/big.png 2x">',
+            '<svg><image href="drawing.svg"></image></svg>',
+            '<img src="https://example.com/remote.png">',
+            '<img src="missing.svg">',
+        ].join('');
+        const question = makeQuestion('q1', [{ n: 1, type: 'frq', stem, acceptable_answers: [] }]);
+        const files = Object.fromEntries(['single', 'bare', 'small', 'drawing'].map((name) => [`q1/${name}.svg`, '<svg/>']));
+        const source = createMemorySource([question], files);
+
+        const inlined = await inlineQuestionAssets(question, 'q1', source);
+        const html = inlined.content.parts[0].stem;
+        expect(html.match(/data:image\/svg\+xml;base64,/g)).toHaveLength(4);
+        expect(html).toContain(`srcset="${SVG_URI} 1x, https://example.com/big.png 2x"`);
+        expect(html).toContain(`<image href="${SVG_URI}"`);
+        expect(html).toContain('src="https://example.com/remote.png"');
+        expect(html).toContain('src="missing.svg"');
+    });
+
+    it('inlines src fields outside HTML and leaves text without references alone', async () => {
+        const question = makeQuestion('q1', [{
+            n: 1,
+            type: 'puzzle',
+            stem: 'Plain text with src in it',
+            pieces: [{ display_order: 1, correct_order: 1, src: 'piece.svg', alt: '' }],
+        }]);
+        const source = createMemorySource([question], { 'q1/piece.svg': '<svg/>' });
+
+        const inlined = await inlineQuestionAssets(question, 'q1', source);
+        const part = inlined.content.parts[0] as { stem: string; pieces: { src: string }[] };
+        expect(part.stem).toBe('Plain text with src in it');
+        expect(part.pieces[0].src).toBe(SVG_URI);
+    });
+});
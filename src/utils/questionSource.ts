@@ -0,0 +1,297 @@
+import JSZip from 'jszip';
+import { resolveImagePath } from './exportPipeline';
+import { mapAssetReferences, rewriteAssetReferences, toAssetPath, transformHtml } from './htmlTransform';
+
+export const DEFAULT_QUESTIONS_BASE_URL = '/api/questions';
+
+export type QuestionSourceKind = 'http' | 'directory' | 'zip';
+
+// Where question JSON and its images are read from. Every source exposes the
+// same {id}/{id}.json + {id}/{file} layout the S3 bucket uses.
+export interface QuestionSource {
+    kind: QuestionSourceKind;
+    label: string;
+    // Parsed but unchecked JSON; run it through validateQuestion before trusting its shape
+    getQuestion: (questionId: string, signal?: AbortSignal) => Promise<unknown>;
+    getAsset: (questionId: string, filename: string, signal?: AbortSignal) => Promise<ArrayBuffer>;
+    // URL the question engine can load assets from, or null when assets only exist locally
+    assetsBasePath: (questionId: string) => string | null;
+}
+
+export class QuestionSourceError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'QuestionSourceError';
+        this.status = status;
+    }
+}
+
+const MIME_TYPES: Record<string, string> = {
+    svg: 'image/svg+xml',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    ico: 'image/x-icon',
+    mp3: 'audio/mpeg',
+    json: 'application/json',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+};
+
+export function getMimeType(filename: string): string {
+    const ext = filename.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+    return MIME_TYPES[ext] ?? 'application/octet-stream';
+}
+
+function parseQuestionJSON(text: string, questionId: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new QuestionSourceError(`Invalid JSON for question ${questionId}`);
+    }
+}
+
+function normalizeRelativePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+}
+
+// ─── HTTP (Vite proxy / S3) ───────────────────────
+
+export function createHttpSource(
+    baseUrl: string = DEFAULT_QUESTIONS_BASE_URL,
+    fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): QuestionSource {
+    const base = baseUrl.replace(/\/+$/, '');
+
+    const request = async (url: string, signal?: AbortSignal) => {
+        const response = await fetchImpl(url, { signal });
+        if (!response.ok) {
+            throw new QuestionSourceError(`HTTP ${response.status}`, response.status);
+        }
+        return response;
+    };
+
+    return {
+        kind: 'http',
+        label: base,
+        getQuestion: async (questionId, signal) => {
+            const response = await request(`${base}/${questionId}/${questionId}.json`, signal);
+            return parseQuestionJSON(await response.text(), questionId);
+        },
+        getAsset: async (questionId, filename, signal) => {
+            const response = await request(`${base}/${questionId}/${filename}`, signal);
+            return response.arrayBuffer();
+        },
+        assetsBasePath: (questionId) => `${base}/${questionId}`,
+    };
+}
+
+// ─── In-memory file tree (folder upload / ZIP) ────
+
+export interface FileTree {
+    // Reads a path relative to the questions root, resolving to null when it does not exist
+    read: (filePath: string) => Promise<ArrayBuffer | null>;
+}
+
+export function createFileTreeSource(kind: QuestionSourceKind, label: string, tree: FileTree): QuestionSource {
+    const readOrThrow = async (filePath: string) => {
+        const data = await tree.read(filePath);
+        if (!data) {
+            throw new QuestionSourceError(`File not found: ${filePath}`, 404);
+        }
+        return data;
+    };
+
+    return {
+        kind,
+        label,
+        getQuestion: async (questionId) => {
+            const data = await readOrThrow(`${questionId}/${questionId}.json`);
+            return parseQuestionJSON(new TextDecoder().decode(data), questionId);
+        },
+        getAsset: (questionId, filename) => readOrThrow(`${questionId}/${normalizeRelativePath(filename)}`),
+        assetsBasePath: () => null,
+    };
+}
+
+// Folders and ZIPs are often wrapped in one extra directory (e.g. "questions/{id}/{id}.json");
+// find that prefix from the first entry that looks like a question file.
+function detectRootPrefix(paths: Iterable<string>): string {
+    for (const filePath of paths) {
+        const match = /^(.*?)([^/]+)\/\2\.json$/.exec(filePath);
+        if (match) {
+            return match[1];
+        }
+    }
+    return '';
+}
+
+function indexFiles<T>(entries: [string, T][]): Map<string, T> {
+    const normalized = entries.map(([filePath, value]) => [normalizeRelativePath(filePath), value] as const);
+    const prefix = detectRootPrefix(normalized.map(([filePath]) => filePath));
+    const index = new Map<string, T>();
+    for (const [filePath, value] of normalized) {
+        if (filePath.startsWith(prefix)) {
+            index.set(filePath.slice(prefix.length), value);
+        }
+    }
+    return index;
+}
+
+// Files from <input webkitdirectory>; webkitRelativePath includes the picked folder name
+export function createFileListSource(files: Iterable<File>): QuestionSource {
+    const list = [...files];
+    const index = indexFiles(list.map((file) => [file.webkitRelativePath || file.name, file]));
+    const rootName = (list[0]?.webkitRelativePath || '').split('/')[0] || 'folder';
+
+    return createFileTreeSource('directory', rootName, {
+        read: async (filePath) => {
+            const file = index.get(filePath);
+            return file ? file.arrayBuffer() : null;
+        },
+    });
+}
+
+// Folder picked through the File System Access API; files are read lazily
+export function createDirectoryHandleSource(root: FileSystemDirectoryHandle): QuestionSource {
+    const resolveFile = async (filePath: string): Promise<File | null> => {
+        const segments = filePath.split('/').filter(Boolean);
+        const fileName = segments.pop();
+        if (!fileName) return null;
+        try {
+            let dir = root;
+            for (const segment of segments) {
+                dir = await dir.getDirectoryHandle(segment);
+            }
+            const handle = await dir.getFileHandle(fileName);
+            return await handle.getFile();
+        } catch {
+            return null;
+        }
+    };
+
+    return createFileTreeSource('directory', root.name, {
+        read: async (filePath) => {
+            const file = await resolveFile(filePath);
+            return file ? file.arrayBuffer() : null;
+        },
+    });
+}
+
+export async function createZipSource(file: Blob & { name?: string }): Promise<QuestionSource> {
+    const zip = await JSZip.loadAsync(file);
+    const entries = Object.values(zip.files)
+        .filter((entry) => !entry.dir)
+        .map((entry) => [entry.name, entry] as [string, JSZip.JSZipObject]);
+    const index = indexFiles(entries);
+    if (index.size === 0) {
+        throw new Error('The ZIP file is empty.');
+    }
+
+    return createFileTreeSource('zip', file.name ?? 'ZIP', {
+        read: async (filePath) => {
+            const entry = index.get(filePath);
+            return entry ? entry.async('arraybuffer') : null;
+        },
+    });
+}
+
+// ─── Memoized source ──────────────────────────────
+
+// Keeps every successful read so a later export against the same source only
+// goes back to the network for what failed the first time. Failures are not cached.
+export function createMemoizedSource(source: QuestionSource): QuestionSource {
+    const questions = new Map<string, unknown>();
+    const assets = new Map<string, ArrayBuffer>();
+
+    return {
+        ...source,
+        getQuestion: async (questionId, signal) => {
+            if (questions.has(questionId)) return questions.get(questionId);
+            const question = await source.getQuestion(questionId, signal);
+            questions.set(questionId, question);
+            return question;
+        },
+        getAsset: async (questionId, filename, signal) => {
+            const key = `${questionId}/${filename}`;
+            const cached = assets.get(key);
+            if (cached) return cached;
+            const data = await source.getAsset(questionId, filename, signal);
+            assets.set(key, data);
+            return data;
+        },
+    };
+}
+
+// ─── Engine helpers ───────────────────────────────
+
+export function arrayBufferToBase64(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function toDataUri(data: ArrayBuffer, mimeType: string): string {
+    return `data:${mimeType};base64,${arrayBufferToBase64(data)}`;
+}
+
+// The engine iframe cannot read local files, so sources without an assetsBasePath
+// get their relative image references swapped for data URIs before the question is posted.
+// HTML fields are searched as the exporters search them (src, srcset, SVG href, CSS url()).
+export async function inlineQuestionAssets<T>(question: T, questionId: string, source: QuestionSource, signal?: AbortSignal): Promise<T> {
+    const cache = new Map<string, Promise<string | null>>();
+
+    // assetPath is images/{questionId}/{file}, as the HTML transforms name it
+    const resolve = (assetPath: string) => {
+        let pending = cache.get(assetPath);
+        if (!pending) {
+            const target = resolveImagePath(assetPath);
+            pending = target
+                ? source.getAsset(target.questionId, target.filename, signal)
+                    .then((data) => toDataUri(data, getMimeType(target.filename)))
+                    .catch(() => null)
+                : Promise.resolve(null);
+            cache.set(assetPath, pending);
+        }
+        return pending;
+    };
+
+    const inlineHtml = async (html: string) => {
+        const assetPaths = new Set<string>();
+        transformHtml(html, (body) => rewriteAssetReferences(body, questionId, assetPaths));
+        if (assetPaths.size === 0) return html;
+        const uris = new Map(await Promise.all([...assetPaths].map(async (assetPath) => [assetPath, await resolve(assetPath)] as const)));
+        return transformHtml(html, (body) => mapAssetReferences(body, questionId, (assetPath) => uris.get(assetPath) ?? null));
+    };
+
+    const visit = async (value: unknown, key: string): Promise<unknown> => {
+        if (typeof value === 'string') {
+            if (key === 'src') {
+                const assetPath = toAssetPath(value, questionId);
+                return (assetPath && (await resolve(assetPath))) ?? value;
+            }
+            return value.includes('<') ? inlineHtml(value) : value;
+        }
+        if (Array.isArray(value)) {
+            return Promise.all(value.map((item) => visit(item, key)));
+        }
+        if (value && typeof value === 'object') {
+            const entries = await Promise.all(
+                Object.entries(value).map(async ([childKey, child]) => [childKey, await visit(child, childKey)] as const)
+            );
+            return Object.fromEntries(entries);
+        }
+        return value;
+    };
+
+    return (await visit(question, '')) as T;
+}
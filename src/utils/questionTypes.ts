@@ -0,0 +1,125 @@
+// ─── Types ────────────────────────────────────────
+export interface Choice {
+  label: string;
+  value: string;
+  is_correct?: boolean;
+}
+export interface GapKey {
+  value: string;
+  display_order: number;
+  correct_order: number;
+}
+export interface OrderingItem {
+  value: string;
+  display_order: number;
+}
+export interface MatchingItems {
+  A: { value: string; label: string; matches?: string }[];
+  B: { value: string; label: string; matches?: string }[];
+}
+export interface GmrqItems {
+  A: Choice[];
+  B: Choice[];
+}
+export interface PuzzlePiece {
+  display_order: number;
+  correct_order: number;
+  src: string;
+  alt: string;
+}
+
+export interface InputAnswer {
+  value: string | number;
+  unit?: string | null;
+}
+export interface MatchingPair {
+  A: string;
+  B: string;
+}
+
+export const KNOWN_PART_TYPES = [
+  'mcq', 'mrq', 'opinion', 'string', 'frq', 'input',
+  'gap', 'ordering', 'matching', 'gmrq', 'counting', 'puzzle',
+] as const;
+export type KnownPartType = (typeof KNOWN_PART_TYPES)[number];
+
+// Parts are only typed this precisely after validateQuestion has checked them
+interface PartBase {
+  n: number;
+  stem: string;
+}
+export interface ChoicePart extends PartBase {
+  type: 'mcq' | 'mrq' | 'opinion';
+  choices: Choice[];
+}
+export interface TextPart extends PartBase {
+  type: 'string' | 'frq';
+  acceptable_answers: string[];
+}
+export interface InputPart extends PartBase {
+  type: 'input';
+  correct_answer?: InputAnswer;
+  ai_template_id?: string;
+}
+export interface GapPart extends PartBase {
+  type: 'gap';
+  gap_keys: GapKey[];
+}
+export interface OrderingPart extends PartBase {
+  type: 'ordering';
+  items: OrderingItem[];
+  correct_answer: string[];
+  direction?: string;
+}
+export interface MatchingPart extends PartBase {
+  type: 'matching';
+  items?: MatchingItems;
+  correct_answer?: MatchingPair[];
+}
+export interface GmrqPart extends PartBase {
+  type: 'gmrq';
+  items: GmrqItems;
+}
+export interface CountingPart extends PartBase {
+  type: 'counting';
+  correct_answer?: string | number;
+  grid?: { rows: number; columns: number };
+}
+export interface PuzzlePart extends PartBase {
+  type: 'puzzle';
+  pieces: PuzzlePiece[];
+  rows?: string;
+  columns?: string;
+  correct_answer?: { src: string; alt: string };
+}
+// A type this app has no renderer for; its fields are passed through untouched
+export interface UnknownPart extends PartBase {
+  type: string;
+  [field: string]: unknown;
+}
+
+export type KnownQuestionPart =
+  | ChoicePart
+  | TextPart
+  | InputPart
+  | GapPart
+  | OrderingPart
+  | MatchingPart
+  | GmrqPart
+  | CountingPart
+  | PuzzlePart;
+export type QuestionPart = KnownQuestionPart | UnknownPart;
+
+// UnknownPart's string type defeats narrowing on part.type, so switches check this first
+export function isKnownPart(part: QuestionPart): part is KnownQuestionPart {
+  return (KNOWN_PART_TYPES as readonly string[]).includes(part.type);
+}
+
+export interface QuestionJSON {
+  question_id: string;
+  language_code: string;
+  number_of_parts: number;
+  content: {
+    parts: QuestionPart[];
+  };
+}
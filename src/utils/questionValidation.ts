@@ -0,0 +1,344 @@
+import {
+  KNOWN_PART_TYPES,
+  type Choice,
+  type GapKey,
+  type KnownPartType,
+  type MatchingItems,
+  type OrderingItem,
+  type PuzzlePiece,
+  type QuestionJSON,
+  type QuestionPart,
+} from './questionTypes';
+
+// Runtime checks for question JSON as it arrives from a source. Malformed fields are
+// normalised (missing lists become empty) so renderers never see undefined, and every
+// fix is recorded as an issue the app and the export result can show.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'invalid-question'
+  | 'missing-parts'
+  | 'id-mismatch'
+  | 'missing-language'
+  | 'part-count-mismatch'
+  | 'invalid-part'
+  | 'unknown-type'
+  | 'missing-stem'
+  | 'missing-choices'
+  | 'no-correct-choice'
+  | 'multiple-correct-choices'
+  | 'missing-answer'
+  | 'missing-items'
+  | 'invalid-item';
+
+export interface ValidationIssue {
+  questionId: string;
+  // null for question-level issues
+  partNumber: number | null;
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  message: string;
+}
+
+export interface ValidationResult {
+  // null when the JSON is not a question at all; it is then treated as a failed download
+  question: QuestionJSON | null;
+  issues: ValidationIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isText(value: unknown): value is string | number {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+type ReportIssue = (partNumber: number | null, severity: ValidationSeverity, code: ValidationCode, message: string) => void;
+
+// Keeps the entries of an array field that pass the check, reporting the rest
+function readList<T>(
+  raw: RawRecord,
+  field: string,
+  parse: (item: unknown) => T | null,
+  onSkipped: (message: string) => void
+): T[] | null {
+  const value = raw[field];
+  if (!Array.isArray(value)) return null;
+  const items: T[] = [];
+  value.forEach((item, index) => {
+    const parsed = parse(item);
+    if (parsed === null) {
+      onSkipped(`${field}[${index}] is malformed and was skipped`);
+    } else {
+      items.push(parsed);
+    }
+  });
+  return items;
+}
+
+function parseChoice(item: unknown): Choice | null {
+  if (!isRecord(item) || !isText(item.value)) return null;
+  return {
+    ...item,
+    label: isText(item.label) ? String(item.label) : '',
+    value: String(item.value),
+    is_correct: item.is_correct === true,
+  };
+}
+
+function parseGapKey(item: unknown): GapKey | null {
+  if (!isRecord(item) || !isText(item.value)) return null;
+  return {
+    ...item,
+    value: String(item.value),
+    display_order: Number(item.display_order) || 0,
+    correct_order: Number(item.correct_order) || 0,
+  };
+}
+
+function parseOrderingItem(item: unknown): OrderingItem | null {
+  if (!isRecord(item) || !isText(item.value)) return null;
+  return { ...item, value: String(item.value), display_order: Number(item.display_order) || 0 };
+}
+
+function parsePuzzlePiece(item: unknown): PuzzlePiece | null {
+  if (!isRecord(item) || typeof item.src !== 'string') return null;
+  return {
+    ...item,
+    src: item.src,
+    alt: typeof item.alt === 'string' ? item.alt : '',
+    display_order: Number(item.display_order) || 0,
+    correct_order: Number(item.correct_order) || 0,
+  };
+}
+
+function parseMatchingEntry(item: unknown): MatchingItems['A'][number] | null {
+  if (!isRecord(item) || !isText(item.value)) return null;
+  return {
+    ...item,
+    value: String(item.value),
+    label: isText(item.label) ? String(item.label) : '',
+    matches: isText(item.matches) ? String(item.matches) : undefined,
+  };
+}
+
+// ─── Per-type checks ──────────────────────────────
+
+type PartFields = { n: number; stem: string };
+
+function validateKnownPart(
+  raw: RawRecord,
+  base: PartFields,
+  type: KnownPartType,
+  report: ReportIssue
+): QuestionPart {
+  const n = base.n;
+  const invalidItem = (message: string) => report(n, 'warning', 'invalid-item', message);
+
+  switch (type) {
+    case 'mcq':
+    case 'mrq':
+    case 'opinion': {
+      const choices = readList(raw, 'choices', parseChoice, invalidItem);
+      if (!choices?.length) {
+        report(n, 'error', 'missing-choices', `${type} part has no choices`);
+      } else if (type !== 'opinion') {
+        const correctCount = choices.filter((choice) => choice.is_correct).length;
+        if (correctCount === 0) {
+          report(n, 'error', 'no-correct-choice', `${type} part has no choice marked is_correct`);
+        } else if (type === 'mcq' && correctCount > 1) {
+          report(n, 'warning', 'multiple-correct-choices', `mcq part has ${correctCount} correct choices`);
+        }
+      }
+      return { ...raw, ...base, type, choices: choices ?? [] };
+    }
+    case 'string':
+    case 'frq': {
+      const answers = Array.isArray(raw.acceptable_answers)
+        ? raw.acceptable_answers.filter(isText).map(String)
+        : [];
+      if (type === 'string' && answers.length === 0) {
+        report(n, 'error', 'missing-answer', 'string part has no acceptable_answers');
+      }
+      return { ...raw, ...base, type, acceptable_answers: answers };
+    }
+    case 'input': {
+      const ca = raw.correct_answer;
+      if (!isRecord(ca) || !isText(ca.value) || ca.value === '') {
+        report(n, 'error', 'missing-answer', 'input part has no correct_answer.value');
+        return { ...raw, ...base, type, correct_answer: undefined };
+      }
+      const unit = typeof ca.unit === 'string' ? ca.unit : null;
+      return { ...raw, ...base, type, correct_answer: { value: ca.value, unit } };
+    }
+    case 'gap': {
+      const gapKeys = readList(raw, 'gap_keys', parseGapKey, invalidItem);
+      if (!gapKeys?.length) {
+        report(n, 'error', 'missing-items', 'gap part has no gap_keys');
+      }
+      return { ...raw, ...base, type, gap_keys: gapKeys ?? [] };
+    }
+    case 'ordering': {
+      const items = readList(raw, 'items', parseOrderingItem, invalidItem) ?? [];
+      const correct = Array.isArray(raw.correct_answer) ? raw.correct_answer.filter(isText).map(String) : [];
+      if (items.length === 0) {
+        report(n, 'error', 'missing-items', 'ordering part has no items');
+      }
+      if (correct.length === 0) {
+        report(n, 'error', 'missing-answer', 'ordering part has no correct_answer order');
+      } else if (items.length > 0 && correct.length !== items.length) {
+        report(n, 'warning', 'invalid-item', `ordering correct_answer lists ${correct.length} of ${items.length} items`);
+      }
+      const direction = typeof raw.direction === 'string' ? raw.direction : undefined;
+      return { ...raw, ...base, type, items, correct_answer: correct, direction };
+    }
+    case 'matching': {
+      const rawItems = isRecord(raw.items) ? raw.items : {};
+      const a = readList(rawItems, 'A', parseMatchingEntry, invalidItem);
+      const b = readList(rawItems, 'B', parseMatchingEntry, invalidItem);
+      const items = a?.length && b?.length ? { A: a, B: b } : undefined;
+      const pairs = Array.isArray(raw.correct_answer)
+        ? raw.correct_answer
+          .filter((pair): pair is RawRecord => isRecord(pair) && isText(pair.A) && isText(pair.B))
+          .map((pair) => ({ A: String(pair.A), B: String(pair.B) }))
+        : undefined;
+      if (!items) {
+        report(n, 'error', 'missing-items', 'matching part is missing items.A or items.B');
+      }
+      if (!pairs?.length && !items?.A.some((item) => item.matches)) {
+        report(n, 'error', 'missing-answer', 'matching part has no correct_answer pairs');
+      }
+      return { ...raw, ...base, type, items, correct_answer: pairs };
+    }
+    case 'gmrq': {
+      const rawItems = isRecord(raw.items) ? raw.items : {};
+      const a = readList(rawItems, 'A', parseChoice, invalidItem) ?? [];
+      const b = readList(rawItems, 'B', parseChoice, invalidItem) ?? [];
+      if (a.length === 0 || b.length === 0) {
+        report(n, 'error', 'missing-choices', 'gmrq part is missing choices in group A or B');
+      }
+      return { ...raw, ...base, type, items: { A: a, B: b } };
+    }
+    case 'counting': {
+      const ca = isText(raw.correct_answer) ? raw.correct_answer : undefined;
+      if (ca === undefined) {
+        report(n, 'error', 'missing-answer', 'counting part has no correct_answer');
+      }
+      const grid = isRecord(raw.grid) && Number(raw.grid.rows) > 0 && Number(raw.grid.columns) > 0
+        ? { rows: Number(raw.grid.rows), columns: Number(raw.grid.columns) }
+        : undefined;
+      return { ...raw, ...base, type, correct_answer: ca, grid };
+    }
+    case 'puzzle': {
+      const pieces = readList(raw, 'pieces', parsePuzzlePiece, invalidItem) ?? [];
+      const ca = raw.correct_answer;
+      const answer = isRecord(ca) && typeof ca.src === 'string'
+        ? { src: ca.src, alt: typeof ca.alt === 'string' ? ca.alt : '' }
+        : undefined;
+      if (pieces.length === 0) {
+        report(n, 'warning', 'missing-items', 'puzzle part has no pieces');
+      }
+      if (!answer) {
+        report(n, 'error', 'missing-answer', 'puzzle part has no correct_answer image');
+      }
+      return {
+        ...raw,
+        ...base,
+        type,
+        pieces,
+        rows: isText(raw.rows) ? String(raw.rows) : undefined,
+        columns: isText(raw.columns) ? String(raw.columns) : undefined,
+        correct_answer: answer,
+      };
+    }
+  }
+}
+
+function validatePart(raw: unknown, index: number, report: ReportIssue): QuestionPart | null {
+  if (!isRecord(raw)) {
+    report(index + 1, 'error', 'invalid-part', `Part ${index + 1} is not an object and was skipped`);
+    return null;
+  }
+
+  const n = typeof raw.n === 'number' && Number.isFinite(raw.n) ? raw.n : index + 1;
+  if (n !== raw.n) {
+    report(n, 'warning', 'invalid-part', `Part ${index + 1} has no numeric n; numbered by position`);
+  }
+  const stem = typeof raw.stem === 'string' ? raw.stem : '';
+  if (!stem.trim()) {
+    report(n, 'warning', 'missing-stem', 'Part has an empty stem');
+  }
+
+  const type = typeof raw.type === 'string' ? raw.type : '';
+  if (!(KNOWN_PART_TYPES as readonly string[]).includes(type)) {
+    report(n, 'warning', 'unknown-type', type ? `Unknown part type "${type}"` : 'Part has no type');
+    return { ...raw, n, stem, type: type || 'unknown' };
+  }
+  return validateKnownPart(raw, { n, stem }, type as KnownPartType, report);
+}
+
+// ─── Question ─────────────────────────────────────
+
+export function validateQuestion(raw: unknown, requestedId: string): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: ReportIssue = (partNumber, severity, code, message) => {
+    issues.push({ questionId: requestedId, partNumber, severity, code, message });
+  };
+
+  if (!isRecord(raw)) {
+    report(null, 'error', 'invalid-question', 'Question JSON is not an object');
+    return { question: null, issues };
+  }
+  const rawParts = isRecord(raw.content) ? raw.content.parts : undefined;
+  if (!Array.isArray(rawParts)) {
+    report(null, 'error', 'missing-parts', 'Question has no content.parts array');
+    return { question: null, issues };
+  }
+
+  if (raw.question_id !== undefined && String(raw.question_id) !== requestedId) {
+    report(null, 'warning', 'id-mismatch', `question_id "${String(raw.question_id)}" differs from the requested ID`);
+  }
+  const languageCode = typeof raw.language_code === 'string' && raw.language_code ? raw.language_code : 'en';
+  if (languageCode !== raw.language_code) {
+    report(null, 'warning', 'missing-language', 'Question has no language_code; assuming "en"');
+  }
+
+  const parts = rawParts
+    .map((part, index) => validatePart(part, index, report))
+    .filter((part): part is QuestionPart => part !== null);
+  if (parts.length === 0) {
+    report(null, 'error', 'missing-parts', 'Question has no parts');
+  }
+
+  const declaredCount = Number(raw.number_of_parts);
+  if (raw.number_of_parts === undefined || declaredCount !== rawParts.length) {
+    report(
+      null,
+      'warning',
+      'part-count-mismatch',
+      `number_of_parts is ${raw.number_of_parts === undefined ? 'missing' : String(raw.number_of_parts)} but content.parts has ${rawParts.length}`
+    );
+  }
+
+  const question: QuestionJSON = {
+    ...raw,
+    question_id: requestedId,
+    language_code: languageCode,
+    number_of_parts: parts.length,
+    content: { ...(raw.content as RawRecord), parts },
+  };
+  return { question, issues };
+}
+
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  const where = issue.partNumber === null ? issue.questionId : `${issue.questionId} part ${issue.partNumber}`;
+  return `${where}: ${issue.message}`;
+}
@@ -0,0 +1,87 @@
+import JSZip from 'jszip';
+import { parseHTML } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { generateExportHTML } from './htmlExporter';
+import type { QuestionJSON } from './questionTypes';
+import { createMemorySource, makeQuestion } from '../test/fixtures';
+
+async function exportQuiz(questions: QuestionJSON[]): Promise<string> {
+    const result = await generateExportHTML(questions.map((q) => q.question_id), undefined, {
+        source: createMemorySource(questions),
+        variant: 'quiz',
+        quizResponses: true,
+        retry: { retries: 0 },
+    });
+    const zip = await JSZip.loadAsync(await result.blob.arrayBuffer());
+    return zip.file('Quiz.html')!.async('string');
+}
+
+function quizScript(html: string): string {
+    const scripts = [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)];
+    return scripts[scripts.length - 1][1];
+}
+
+// Loads the quiz into a DOM, runs its script and returns a way to check answers
+function loadQuiz(html: string) {
+    const { document, window } = parseHTML(html);
+    new Function('document', quizScript(html))(document);
+    const part = (questionId: string) => document.querySelector(`[data-questionid="${questionId}"] [data-quiz-part]`)!;
+    return {
+        part,
+        choose: (questionId: string, index: number) => {
+            part(questionId).querySelector(`input[value="${index}"]`)!.setAttribute('checked', '');
+        },
+        type: (questionId: string, text: string) => {
+            (part(questionId).querySelector('.quiz-text') as HTMLInputElement).value = text;
+        },
+        check: () => {
+            document.getElementById('quiz-check')!.dispatchEvent(new window.Event('click', { bubbles: true }));
+            return document.getElementById('quiz-score')!.textContent;
+        },
+        result: (questionId: string) => part(questionId).querySelector('.quiz-result')!.textContent,
+    };
+}
+
+const choice = makeQuestion('q-choice', [{
+    n: 1,
+    type: 'mcq',
+    stem: '<p>Pick two</p>',
+    choices: [{ label: 'a', value: 'One' }, { label: 'b', value: 'Two', is_correct: true }],
+}]);
+const text = makeQuestion('q-text', [{ n: 1, type: 'string', stem: '<p>Name it</p>', acceptable_answers: ['<p>Cairo</p>'] }]);
+const numeric = makeQuestion('q-number', [{ n: 1, type: 'input', stem: '<p>Half of 5</p>', correct_answer: { value: '2.5' } }]);
+
+describe('quiz runtime', () => {
+    it('emits a script that parses', async () => {
+        const html = await exportQuiz([choice, text, numeric]);
+        const script = quizScript(html);
+        expect(script).not.toMatch(/[\x00-\x08\x7f]/);
+        expect(() => new Function(script)).not.toThrow();
+    });
+
+    it('grades choice, text and numeric answers', async () => {
+        const quiz = loadQuiz(await exportQuiz([choice, text, numeric]));
+        quiz.choose('q-choice', 1);
+        quiz.type('q-text', '  CAIRO ');
+        quiz.type('q-number', '2,50');
+        expect(quiz.check()).toBe('Score: 3 / 3');
+        expect(quiz.part('q-text').classList.contains('quiz-correct')).toBe(true);
+        expect(quiz.result('q-number')).toBe('✓ Correct');
+    });
+
+    it('marks wrong and missing answers incorrect', async () => {
+        const quiz = loadQuiz(await exportQuiz([choice, text, numeric]));
+        quiz.choose('q-choice', 0);
+        quiz.type('q-number', '3');
+        expect(quiz.check()).toBe('Score: 0 / 3');
+        expect(quiz.part('q-text').classList.contains('quiz-incorrect')).toBe(true);
+        expect(quiz.result('q-choice')).toBe('✗ Incorrect');
+    });
+
+    it('reads answers typed with the locale digits', async () => {
+        const arabic = makeQuestion('q-ar', [{ n: 1, type: 'input', stem: '<p>١٢</p>', correct_answer: { value: '12' } }], 'ar');
+        const quiz = loadQuiz(await exportQuiz([arabic]));
+        quiz.type('q-ar', '١٢');
+        expect(quiz.check()).toBe('الدرجة: ١ / ١');
+    });
+});
@@ -0,0 +1,287 @@
+// Styles, controls and script that turn an exported question list rendered with
+// view: 'quiz' into a self-grading quiz. Everything is inline, so the document works
+// from file:// with no server; the keys are the data-quiz-key attributes on each part.
+
+import { DEFAULT_LOCALE, type ExportLocale } from './locales';
+
+export interface QuizRuntimeOptions {
+  // Adds a button that saves the student's responses and score as JSON
+  responsesDownload?: boolean;
+  // Language of the controls, results and score digits (default English)
+  locale?: ExportLocale;
+}
+
+export const QUIZ_RESPONSES_FILE_NAME = 'quiz-responses.json';
+
+const QUIZ_STYLES = `
+                <style>
+                    /* ===== Interactive quiz ===== */
+                    .quiz-choice {
+                        display: flex;
+                        align-items: flex-start;
+                        gap: 0.5em;
+                        cursor: pointer;
+                    }
+                    .quiz-choice input {
+                        margin-top: 0.4em;
+                    }
+                    .quiz-text {
+                        min-width: 12em;
+                        padding: 4px 8px;
+                        font: inherit;
+                        border: 1px solid #999;
+                        border-radius: 4px;
+                    }
+                    .quiz-order-item {
+                        display: flex;
+                        align-items: center;
+                        gap: 0.5em;
+                    }
+                    .quiz-order-buttons {
+                        display: inline-flex;
+                        flex-direction: column;
+                    }
+                    .quiz-move {
+                        font-size: 0.7em;
+                        line-height: 1;
+                        padding: 2px 6px;
+                        cursor: pointer;
+                    }
+                    .quiz-match {
+                        font: inherit;
+                        padding: 2px 4px;
+                    }
+                    .answers.quiz-correct {
+                        border-inline-start: 4px solid #2e7d32;
+                        padding-inline-start: 8px;
+                    }
+                    .answers.quiz-incorrect {
+                        border-inline-start: 4px solid #c62828;
+                        padding-inline-start: 8px;
+                    }
+                    .quiz-result {
+                        font-weight: 700;
+                        margin: 0.5em 0 0;
+                    }
+                    .quiz-correct .quiz-result {
+                        color: #2e7d32;
+                    }
+                    .quiz-incorrect .quiz-result {
+                        color: #c62828;
+                    }
+                    .quiz-controls {
+                        position: sticky;
+                        bottom: 0;
+                        display: flex;
+                        align-items: center;
+                        gap: 1em;
+                        padding: 12px 16px;
+                        background: #fff;
+                        border-top: 1px solid #ccc;
+                    }
+                    .quiz-controls button {
+                        font: inherit;
+                        padding: 6px 16px;
+                        cursor: pointer;
+                    }
+                    .quiz-score {
+                        font-weight: 700;
+                        margin: 0;
+                    }
+                    @media print {
+                        .quiz-controls, .quiz-order-buttons {
+                            display: none;
+                        }
+                    }
+                </style>
+`;
+
+// What the script writes into the page; < is escaped so no label can end the script
+function scriptLabels(locale: ExportLocale): string {
+  const { correct, incorrect, score } = locale.labels;
+  return JSON.stringify({ correct, incorrect, score, digits: locale.digits }).replace(/</g, '\\u003c');
+}
+
+// Plain ES5 so the quiz runs in whatever browser the student opens it in
+function quizScript(locale: ExportLocale): string {
+  return `
+<script>
+(function() {
+    var LABELS = ${scriptLabels(locale)};
+
+    function formatNumber(value) {
+        return String(value).replace(/[0-9]/g, function(digit) { return LABELS.digits.charAt(Number(digit)); });
+    }
+
+    // The reverse, so answers typed with the locale's digits (١٢) compare as 12
+    function toAsciiDigits(text) {
+        return String(text).replace(/[^\\x00-\\x7f]/g, function(char) {
+            var digit = LABELS.digits.indexOf(char);
+            return digit === -1 ? char : String(digit);
+        });
+    }
+
+    function toArray(list) {
+        return Array.prototype.slice.call(list);
+    }
+
+    function normalize(text) {
+        return String(text).replace(/\\s+/g, ' ').trim().toLowerCase();
+    }
+
+    function quizParts() {
+        return toArray(document.querySelectorAll('[data-quiz-part]'));
+    }
+
+    function readKey(part) {
+        var text = part.getAttribute('data-quiz-key');
+        return text ? JSON.parse(text) : null;
+    }
+
+    // Choice indices, typed text, item order (as rendered positions) or the B index chosen per A row
+    function readResponse(part) {
+        switch (part.getAttribute('data-quiz-kind')) {
+            case 'choice':
+                return toArray(part.querySelectorAll('input:checked')).map(function(input) { return Number(input.value); });
+            case 'text':
+                var input = part.querySelector('.quiz-text');
+                return input ? input.value : '';
+            case 'order':
+                return toArray(part.querySelectorAll('.quiz-order-item')).map(function(item) { return Number(item.getAttribute('data-quiz-item')); });
+            case 'match':
+                return toArray(part.querySelectorAll('.quiz-match')).map(function(select) { return select.value === '' ? null : Number(select.value); });
+        }
+        return null;
+    }
+
+    // The response as the student saw it: choice labels, text, item numbers, chosen labels
+    function describeResponse(part) {
+        switch (part.getAttribute('data-quiz-kind')) {
+            case 'choice':
+                return toArray(part.querySelectorAll('input:checked')).map(function(input) { return input.getAttribute('data-quiz-label'); });
+            case 'order':
+                return readResponse(part).map(function(index) { return index + 1; });
+            case 'match':
+                return toArray(part.querySelectorAll('.quiz-match')).map(function(select) {
+                    return select.value === '' ? null : select.options[select.selectedIndex].text;
+                });
+        }
+        return readResponse(part);
+    }
+
+    function sameList(a, b) {
+        return a.length === b.length && a.every(function(value, index) { return value === b[index]; });
+    }
+
+    function isCorrect(key, response) {
+        if (key.kind === 'choice') {
+            return sameList(response.slice().sort(function(a, b) { return a - b; }), key.correct);
+        }
+        if (key.kind === 'text') {
+            var typed = normalize(toAsciiDigits(response));
+            if (!typed) return false;
+            return key.answers.some(function(answer) {
+                var expected = toAsciiDigits(answer);
+                var value = Number(typed.replace(',', '.'));
+                if (key.numeric && isFinite(value)) {
+                    return Math.abs(value - Number(expected)) <= 1e-9 * Math.max(1, Math.abs(Number(expected)));
+                }
+                return typed === normalize(expected);
+            });
+        }
+        return sameList(response, key.correct);
+    }
+
+    function clearMark(part) {
+        part.classList.remove('quiz-correct', 'quiz-incorrect');
+        var result = part.querySelector('.quiz-result');
+        if (result) result.textContent = '';
+    }
+
+    function check() {
+        var score = { correct: 0, total: 0 };
+        quizParts().forEach(function(part) {
+            var key = readKey(part);
+            if (!key) return;
+            var correct = isCorrect(key, readResponse(part));
+            score.total += 1;
+            if (correct) score.correct += 1;
+            clearMark(part);
+            part.classList.add(correct ? 'quiz-correct' : 'quiz-incorrect');
+            var result = part.querySelector('.quiz-result');
+            if (result) result.textContent = correct ? '\\u2713 ' + LABELS.correct : '\\u2717 ' + LABELS.incorrect;
+        });
+        document.getElementById('quiz-score').textContent = LABELS.score + ': ' + formatNumber(score.correct) + ' / ' + formatNumber(score.total);
+        return score;
+    }
+
+    function downloadResponses() {
+        var score = check();
+        var responses = quizParts().map(function(part) {
+            var question = part.closest('[data-questionid]');
+            var key = readKey(part);
+            return {
+                questionId: question ? question.getAttribute('data-questionid') : null,
+                partNumber: Number(part.getAttribute('data-quiz-part')),
+                kind: part.getAttribute('data-quiz-kind'),
+                response: describeResponse(part),
+                correct: key ? isCorrect(key, readResponse(part)) : null
+            };
+        });
+        var data = { title: document.title, savedAt: new Date().toISOString(), score: score, responses: responses };
+        var url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+        var link = document.createElement('a');
+        link.href = url;
+        link.download = '${QUIZ_RESPONSES_FILE_NAME}';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(function() { URL.revokeObjectURL(url); }, 1000);
+    }
+
+    document.addEventListener('click', function(event) {
+        var button = event.target.closest ? event.target.closest('.quiz-move') : null;
+        if (!button) return;
+        var item = button.closest('.quiz-order-item');
+        var up = Number(button.getAttribute('data-quiz-move')) < 0;
+        var sibling = up ? item.previousElementSibling : item.nextElementSibling;
+        if (!sibling) return;
+        item.parentNode.insertBefore(item, up ? sibling : sibling.nextElementSibling);
+        clearMark(item.closest('[data-quiz-part]'));
+        button.focus();
+    });
+
+    // A changed answer is no longer the one that was checked
+    ['input', 'change'].forEach(function(type) {
+        document.addEventListener(type, function(event) {
+            var part = event.target.closest ? event.target.closest('[data-quiz-part]') : null;
+            if (part) clearMark(part);
+        });
+    });
+
+    document.getElementById('quiz-check').addEventListener('click', check);
+    var download = document.getElementById('quiz-download');
+    if (download) download.addEventListener('click', downloadResponses);
+})();
+<\/script>
+`;
+}
+
+function renderControls(options: QuizRuntimeOptions, locale: ExportLocale): string {
+  const download = options.responsesDownload
+    ? `
+    <button type="button" id="quiz-download">${locale.labels.downloadResponses}</button>` : '';
+  return `
+<div class="quiz-controls">
+    <button type="button" id="quiz-check">${locale.labels.checkAnswers}</button>${download}
+    <p class="quiz-score" id="quiz-score" aria-live="polite"></p>
+</div>`;
+}
+
+// Adds the quiz styles, the Check (and optional download) controls and the grading script
+export function addQuizRuntime(documentHtml: string, options: QuizRuntimeOptions = {}): string {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  return documentHtml
+    .replace('</head>', () => `${QUIZ_STYLES}            </head>`)
+    .replace('</body>', () => `${renderControls(options, locale)}${quizScript(locale)}</body>`);
+}
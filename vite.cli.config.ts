@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Builds the headless exporter (src/cli) into a Node bundle used by bin/question-export.js
+export default defineConfig({
+    build: {
+        ssr: 'src/cli/questionExport.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        emptyOutDir: true,
+        // KaTeX's fonts travel inside its stylesheet so exports can embed it (see mathMarkup.ts)
+        assetsInlineLimit: (filePath) => /KaTeX_[^/]*\.woff2$/.test(filePath) || undefined,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'question-export.js',
+            },
+        },
+    },
+})
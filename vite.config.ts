@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
     base: '/html_from_id/',
     plugins: [react()],
+    build: {
+        // KaTeX's fonts travel inside its stylesheet so exports can embed it (see mathMarkup.ts)
+        assetsInlineLimit: (filePath) => /KaTeX_[^/]*\.woff2$/.test(filePath) || undefined,
+    },
     server: {
         proxy: {
             '/api/questions': {
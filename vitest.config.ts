@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run in Node; src/test/setup.ts supplies the DOMParser the exporters use
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        setupFiles: ['src/test/setup.ts'],
+    },
+})